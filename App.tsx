@@ -1,14 +1,95 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Upload, Play, Pause, Download, Music, Square, Trash2, Plus, ChevronDown, FileAudio, CircleHelp } from 'lucide-react';
-import { AudioTrack, PlaybackState } from './types';
+import { Upload, Play, Pause, Repeat, Download, Music, Square, Trash2, Plus, ChevronDown, FileAudio, CircleHelp, FolderOpen, Save, Tag, Drum } from 'lucide-react';
+import { AudioClip, AudioTrack, AutomationLane, AutomationParam, DitherMode, ExportBitDepth, ExportFormat, ExportMetadata, ExportSettings, LimiterSettings, LoudnessMeasurement, LoudnessReport, LoudnessTarget, Marker, MonitorSettings, Mp3Mode, PlaybackState, RulerUnit, TempoSettings, TimelineView, TimeRange, TrackDynamics, TrackEq } from './types';
 import { TrackRow } from './components/TrackRow';
 import { MasterMeter } from './components/MasterMeter';
+import { StereoScope } from './components/StereoScope';
 import { GlobalTimeline } from './components/GlobalTimeline';
-import { bounceTracks, estimateFileSize } from './services/audioService';
+import {
+  bounceStems,
+  bounceTracks,
+  createDefaultExportSettings,
+  estimateFileSize,
+  EXPORT_SAMPLE_RATES,
+  getExportSpan,
+  getFlacBitDepth,
+  getMp3Options,
+  getMp3SampleRate,
+  StemProgress,
+  StemStatus,
+} from './services/audioService';
+import { createClip, getTrackEnd } from './services/clips';
+import { addAutomationPoint, createTrackAutomation } from './services/automation';
+import { createDefaultEq } from './services/eq';
+import { createDefaultDynamics } from './services/dynamics';
+import { loadWorklets } from './services/worklets';
+import { createDefaultLimiter, createLimiterStage, LimiterStage } from './services/limiter';
+import { LOUDNESS_PRESETS } from './services/loudness';
+import { createMeterStage, MeterStage } from './services/metering';
+import { createDefaultMonitor, createMonitorStage, MonitorStage } from './services/monitor';
+import { openProject, PROJECT_EXTENSION, ProjectSession, saveProject } from './services/project';
+import { clearAutosave, peekAutosave, restoreAutosave, saveAutosave } from './services/autosave';
+import {
+  applyCommand,
+  createAddCommand,
+  createClearCommand,
+  createEditCommand,
+  createHistory,
+  createMoveCommand,
+  createRemoveCommand,
+  HistoryCommand,
+  HistoryState,
+  pushCommand,
+  revertCommand,
+} from './services/history';
+import { DITHER_LABELS } from './services/dither';
+import { FLAC_COMPRESSION_LEVELS } from './services/flac';
+import { describeMp3Options, MP3_BITRATES, MP3_MODE_LABELS, MP3_VBR_QUALITIES } from './services/mp3';
+import { createDefaultMetadata, formatFileName } from './services/metadata';
+import { createCueSheet, createMarker, getMarkersInSpan, getNextMarkerName, sortMarkers } from './services/markers';
+import { createTransport, Transport } from './services/transport';
+import { clampTimelineView, createDefaultTimelineView, getVisibleSpan, scrollTimelineView, zoomTimelineView } from './services/timelineView';
+import { createDefaultTempo, formatBarsBeats, snapToBeat } from './services/tempo';
+import { HistoryMenu } from './components/HistoryMenu';
+import { MetadataPanel } from './components/MetadataPanel';
+import { MarkerList } from './components/MarkerList';
+import { TempoMenu } from './components/TempoMenu';
 import { HelpModal } from './components/HelpModal';
+import { TimeRuler } from './components/TimeRuler';
 import WaveSurfer from 'wavesurfer.js';
 
+const BIT_DEPTH_LABELS: Record<ExportBitDepth, string> = {
+  16: '16-bit',
+  24: '24-bit',
+  32: '32-bit float',
+};
+
+const formatSampleRate = (rate: number) => `${(rate / 1000).toFixed(rate % 1000 === 0 ? 0 : 1)} kHz`;
+
+const STEM_STATUS_LABELS: Record<StemStatus, string> = {
+  pending: 'Waiting',
+  rendering: 'Rendering...',
+  encoding: 'Encoding...',
+  done: 'Done',
+};
+const STEM_STATUS_COLORS: Record<StemStatus, string> = {
+  pending: 'text-daw-muted',
+  rendering: 'text-daw-accent',
+  encoding: 'text-yellow-400',
+  done: 'text-green-400',
+};
+// Rough share of the work per stem, for the progress bars
+const STEM_STATUS_PROGRESS: Record<StemStatus, number> = {
+  pending: 0,
+  rendering: 30,
+  encoding: 70,
+  done: 100,
+};
+
+// How often (ms) the session is written to IndexedDB while it changes
+const AUTOSAVE_INTERVAL = 2000;
+
 const App: React.FC = () => {
   const [tracks, setTracks] = useState<AudioTrack[]>([]);
   const [playback, setPlayback] = useState<PlaybackState>({
@@ -18,23 +99,54 @@ const App: React.FC = () => {
     isExporting: false,
   });
   const [masterVolume, setMasterVolume] = useState(1.0);
+  const [limiter, setLimiter] = useState<LimiterSettings>(createDefaultLimiter);
+  const [monitor, setMonitor] = useState<MonitorSettings>(createDefaultMonitor);
   
   // UI State
   const [isDraggingFile, setIsDraggingFile] = useState(false);
-  const [showRemaining, setShowRemaining] = useState(false);
+  const [footerTimeMode, setFooterTimeMode] = useState<'elapsed' | 'remaining' | 'bars'>('elapsed');
   const [isHelpOpen, setIsHelpOpen] = useState(false);
   
   // Audio Context for Live Visualization (Mixing Engine)
   const audioContextRef = useRef<AudioContext | null>(null);
   const masterGainRef = useRef<GainNode | null>(null);
+  const limiterRef = useRef<LimiterStage | null>(null);
+  const meterRef = useRef<MeterStage | null>(null);
+  const monitorRef = useRef<MonitorStage | null>(null);
   const analyserLRef = useRef<AnalyserNode | null>(null);
   const analyserRRef = useRef<AnalyserNode | null>(null);
+  const transportRef = useRef<Transport | null>(null);
   
   const [isAudioContextReady, setIsAudioContextReady] = useState(false);
   
   // Bounce Menu State
   const [isBounceMenuOpen, setIsBounceMenuOpen] = useState(false);
   const bounceMenuRef = useRef<HTMLDivElement>(null);
+  const [loudnessTarget, setLoudnessTarget] = useState<LoudnessTarget | null>(null);
+  const [lastLoudness, setLastLoudness] = useState<LoudnessReport | null>(null);
+  const [stemProgress, setStemProgress] = useState<StemProgress[] | null>(null);
+  const [encodeProgress, setEncodeProgress] = useState<number | null>(null); // 0 to 1 while an MP3 is encoded
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(createDefaultExportSettings);
+  const [exportRange, setExportRange] = useState<TimeRange | null>(null); // null = whole session
+  const [loopRange, setLoopRange] = useState<TimeRange | null>(null);
+  const [isLooping, setIsLooping] = useState(false);
+  const [timelineView, setTimelineView] = useState<TimelineView>(createDefaultTimelineView);
+  const [rulerUnit, setRulerUnit] = useState<RulerUnit>('time');
+  const [tempo, setTempo] = useState<TempoSettings>(createDefaultTempo);
+  const [isSnapping, setIsSnapping] = useState(false);
+  const [isMetronomeOn, setIsMetronomeOn] = useState(false);
+  const tracksAreaRef = useRef<HTMLDivElement>(null);
+  const lastPlayheadRef = useRef(0);
+  const [metadata, setMetadata] = useState<ExportMetadata>(createDefaultMetadata);
+  const [exportVersion, setExportVersion] = useState(1); // {n} in the file name template
+  const [isMetadataOpen, setIsMetadataOpen] = useState(false);
+  const [markers, setMarkers] = useState<Marker[]>([]); // Sorted by start
+
+  // Autosave: nothing is written until the user has answered the restore prompt,
+  // so a fresh page can't overwrite the session they might want back
+  const [pendingRestore, setPendingRestore] = useState<{ savedAt: Date; trackCount: number } | null>(null);
+  const [isAutosaveReady, setIsAutosaveReady] = useState(false);
+  const autosaveTimerRef = useRef<number | null>(null);
 
   // Initialize Audio Engine on Mount
   useEffect(() => {
@@ -44,20 +156,39 @@ const App: React.FC = () => {
     const analyserL = ctx.createAnalyser();
     const analyserR = ctx.createAnalyser();
     
-    analyserL.fftSize = 256;
-    analyserR.fftSize = 256;
+    // Long enough for a dense goniometer trace and a stable correlation reading
+    analyserL.fftSize = 2048;
+    analyserR.fftSize = 2048;
 
-    masterGain.connect(splitter);
     splitter.connect(analyserL, 0);
     splitter.connect(analyserR, 1);
-    masterGain.connect(ctx.destination);
 
     audioContextRef.current = ctx;
     masterGainRef.current = masterGain;
     analyserLRef.current = analyserL;
     analyserRRef.current = analyserR;
-    
-    setIsAudioContextReady(true);
+
+    // Track chains and the master limiter are only built once the worklets are available.
+    // The meters sit after the limiter so they show what gets exported; the
+    // monitor controls only sit in front of the speakers.
+    loadWorklets(ctx).finally(() => {
+      const limiterStage = createLimiterStage(ctx, createDefaultLimiter());
+      masterGain.connect(limiterStage.input);
+      limiterStage.output.connect(splitter);
+      limiterRef.current = limiterStage;
+
+      const monitorStage = createMonitorStage(ctx, createDefaultMonitor());
+      limiterStage.output.connect(monitorStage.input);
+      monitorStage.output.connect(ctx.destination);
+      monitorRef.current = monitorStage;
+      // The click skips the master bus and meters but still goes through dim and mono/L/R
+      transportRef.current = createTransport(ctx, monitorStage.input);
+
+      const meterStage = createMeterStage(ctx);
+      limiterStage.output.connect(meterStage.input);
+      meterRef.current = meterStage;
+      setIsAudioContextReady(true);
+    });
 
     return () => {
         ctx.close();
@@ -70,6 +201,76 @@ const App: React.FC = () => {
         masterGainRef.current.gain.setTargetAtTime(masterVolume, audioContextRef.current?.currentTime || 0, 0.05);
     }
   }, [masterVolume]);
+
+  // Sync Master Limiter
+  useEffect(() => {
+    limiterRef.current?.update(limiter);
+  }, [limiter, isAudioContextReady]);
+
+  // Sync Monitoring
+  useEffect(() => {
+    monitorRef.current?.update(monitor);
+  }, [monitor, isAudioContextReady]);
+
+  // Sync Loop
+  useEffect(() => {
+    transportRef.current?.setLoop(isLooping ? loopRange : null);
+  }, [isLooping, loopRange, isAudioContextReady]);
+
+  // Sync Metronome
+  useEffect(() => {
+    transportRef.current?.setClick(isMetronomeOn ? tempo : null);
+  }, [isMetronomeOn, tempo, isAudioContextReady]);
+
+  // Offer to restore the last autosaved session
+  useEffect(() => {
+    peekAutosave()
+      .then(saved => saved ? setPendingRestore(saved) : setIsAutosaveReady(true))
+      .catch(err => {
+        console.warn("Autosave unavailable", err);
+      });
+  }, []);
+
+  // Latest session for the autosave timer
+  const autosaveSessionRef = useRef({ tracks, masterVolume, limiter, loudnessTarget, markers, tempo, playhead: playback.currentTime });
+  autosaveSessionRef.current = { tracks, masterVolume, limiter, loudnessTarget, markers, tempo, playhead: playback.currentTime };
+
+  // The playhead only triggers a save while stopped (a stop, pause or seek).
+  // During playback it moves every frame; pagehide below catches it then.
+  const stoppedPlayhead = playback.isPlaying ? null : playback.currentTime;
+
+  // Save at most every AUTOSAVE_INTERVAL while things change
+  useEffect(() => {
+    if (!isAutosaveReady || autosaveTimerRef.current !== null) return;
+    autosaveTimerRef.current = window.setTimeout(() => {
+      autosaveTimerRef.current = null;
+      const { playhead, ...session } = autosaveSessionRef.current;
+      saveAutosave(session, playhead).catch(err => console.warn("Autosave failed", err));
+    }, AUTOSAVE_INTERVAL);
+  }, [isAutosaveReady, tracks, masterVolume, limiter, loudnessTarget, markers, tempo, stoppedPlayhead]);
+
+  // Save right away when the page goes away, with the playhead where it is now
+  useEffect(() => {
+    if (!isAutosaveReady) return;
+    const handlePageHide = () => {
+      if (autosaveTimerRef.current !== null) {
+        clearTimeout(autosaveTimerRef.current);
+        autosaveTimerRef.current = null;
+      }
+      const { playhead, ...session } = autosaveSessionRef.current;
+      saveAutosave(session, playhead).catch(err => console.warn("Autosave failed", err));
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [isAutosaveReady]);
+
+  // No save left pending after unmount
+  useEffect(() => () => {
+    if (autosaveTimerRef.current !== null) {
+      clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+    }
+  }, []);
   
   // Close menu when clicking outside
   useEffect(() => {
@@ -82,24 +283,120 @@ const App: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
   
-  const maxDurationRef = useRef(0);
+  // The session runs until the end of the last clip on any track
+  useEffect(() => {
+    const duration = tracks.reduce((max, t) => Math.max(max, getTrackEnd(t)), 0);
+    setPlayback(prev => prev.duration === duration ? prev : { ...prev, duration });
+  }, [tracks]);
+
+  // --- Undo/Redo ---
+  // Mix edits go through commands (services/history). The refs let the
+  // stable callbacks below see the latest state between renders.
+  const [history, setHistory] = useState<HistoryState>(createHistory);
+  const tracksRef = useRef(tracks);
+  tracksRef.current = tracks;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  const setHistoryState = (next: HistoryState) => {
+    historyRef.current = next;
+    setHistory(next);
+  };
+
+  // Applies a command and records it for undo
+  const commit = (command: HistoryCommand | null) => {
+    if (!command) return;
+    tracksRef.current = applyCommand(tracksRef.current, command);
+    setTracks(prev => applyCommand(prev, command));
+    setHistoryState(pushCommand(historyRef.current, command));
+  };
+
+  // Records whatever `update` changes as one undoable edit.
+  // Edits sharing a merge key (one slider drag) collapse into a single entry.
+  const editTracks = (label: string, update: (tracks: AudioTrack[]) => AudioTrack[], mergeKey?: string) => {
+    const prev = tracksRef.current;
+    commit(createEditCommand(label, prev, update(prev), mergeKey));
+  };
+
+  const undo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const command = past[past.length - 1];
+    if (!command) return;
+    tracksRef.current = revertCommand(tracksRef.current, command);
+    setTracks(prev => revertCommand(prev, command));
+    setHistoryState({ past: past.slice(0, -1), future: [command, ...future] });
+  }, []);
+
+  const redo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const command = future[0];
+    if (!command) return;
+    tracksRef.current = applyCommand(tracksRef.current, command);
+    setTracks(prev => applyCommand(prev, command));
+    setHistoryState({ past: [...past, command], future: future.slice(1) });
+  }, []);
+
+  // Steps through the history until `position` entries are applied
+  const jumpToHistory = (position: number) => {
+    while (historyRef.current.past.length > position) undo();
+    while (historyRef.current.past.length < position && historyRef.current.future.length > 0) redo();
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLInputElement && target.type !== 'range') return;
+      if (target instanceof HTMLTextAreaElement || target.isContentEditable) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // I / O set the export in/out point at the playhead
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLInputElement && target.type !== 'range') return;
+      if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement || target.isContentEditable) return;
+
+      const { currentTime, duration } = playbackRef.current;
+      if (duration <= 0) return;
+      const key = e.key.toLowerCase();
+      if (key === 'i') {
+        setExportRange(prev => ({
+          start: currentTime,
+          end: prev && prev.end > currentTime ? prev.end : duration,
+        }));
+      } else if (key === 'o' && currentTime > 0) {
+        setExportRange(prev => ({
+          start: prev && prev.start < currentTime ? prev.start : 0,
+          end: currentTime,
+        }));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   // Manual Move Handlers (Swap Logic)
-  const moveTrack = useCallback((index: number, direction: 'up' | 'down') => {
-    setTracks(items => {
-        if (direction === 'up' && index === 0) return items;
-        if (direction === 'down' && index === items.length - 1) return items;
-        
-        const newIndex = direction === 'up' ? index - 1 : index + 1;
-        const newItems = [...items];
-        
-        // Swap
-        const temp = newItems[index];
-        newItems[index] = newItems[newIndex];
-        newItems[newIndex] = temp;
-        
-        return newItems;
-    });
+  const moveTrack = useCallback((id: string, direction: 'up' | 'down') => {
+    const items = tracksRef.current;
+    const index = items.findIndex(t => t.id === id);
+    if (index < 0) return;
+    if (direction === 'up' && index === 0) return;
+    if (direction === 'down' && index === items.length - 1) return;
+
+    const newIndex = direction === 'up' ? index - 1 : index + 1;
+    commit(createMoveCommand(items[index], index, newIndex));
   }, []);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -117,14 +414,19 @@ const App: React.FC = () => {
       id: uuidv4(),
       name: file.name.replace(/\.[^/.]+$/, ""),
       file,
-      url: URL.createObjectURL(file),
       volume: 0.8,
+      pan: 0,
+      panLaw: 'equal-power',
       isMuted: false,
       isSolo: false,
       duration: 0,
+      clips: [],
+      automation: createTrackAutomation(),
+      eq: createDefaultEq(),
+      dynamics: createDefaultDynamics(),
     }));
 
-    setTracks((prev) => [...prev, ...newTracks]);
+    commit(createAddCommand(newTracks));
   };
 
   const handleDragEnter = (e: React.DragEvent) => {
@@ -165,16 +467,64 @@ const App: React.FC = () => {
     }
   };
 
+  // Latest playback state for callbacks that shouldn't be re-created every frame
+  const playbackRef = useRef(playback);
+  playbackRef.current = playback;
+
+  // Lets the track rows follow the playhead without a per-frame prop
+  const getPlayhead = useCallback(
+    () => transportRef.current?.getPosition() ?? playbackRef.current.currentTime,
+    []
+  );
+
+  // In write mode, fader/pan moves made during playback are recorded into the envelope
+  const recordAutomation = (track: AudioTrack, param: AutomationParam, value: number): AudioTrack => {
+    const lane = track.automation[param];
+    const { isPlaying, currentTime } = playbackRef.current;
+    if (lane.mode !== 'write' || !isPlaying) return track;
+
+    const points = addAutomationPoint(lane.points, { time: currentTime, value, curve: 'linear' });
+    return { ...track, automation: { ...track.automation, [param]: { ...lane, points } } };
+  };
+
+  const trackName = (id: string) => tracksRef.current.find(t => t.id === id)?.name ?? 'track';
+
   const handleVolumeChange = useCallback((id: string, volume: number) => {
-    setTracks(prev => prev.map(t => t.id === id ? { ...t, volume } : t));
+    editTracks(`Volume: ${trackName(id)}`, prev => prev.map(t => t.id === id ? recordAutomation({ ...t, volume }, 'volume', volume) : t), `volume-${id}`);
+  }, []);
+
+  const handlePanChange = useCallback((id: string, pan: number) => {
+    editTracks(`Pan: ${trackName(id)}`, prev => prev.map(t => t.id === id ? recordAutomation({ ...t, pan }, 'pan', pan) : t), `pan-${id}`);
+  }, []);
+
+  const handleAutomationChange = useCallback((id: string, param: AutomationParam, lane: AutomationLane) => {
+    editTracks(
+      `Automation: ${trackName(id)}`,
+      prev => prev.map(t => t.id === id ? { ...t, automation: { ...t.automation, [param]: lane } } : t),
+      `automation-${id}-${param}`,
+    );
+  }, []);
+
+  const handlePanLawToggle = useCallback((id: string) => {
+    editTracks(`Pan law: ${trackName(id)}`, prev => prev.map(t => t.id === id
+      ? { ...t, panLaw: t.panLaw === 'equal-power' ? 'linear' : 'equal-power' }
+      : t));
+  }, []);
+
+  const handleEqChange = useCallback((id: string, eq: TrackEq) => {
+    editTracks(`EQ: ${trackName(id)}`, prev => prev.map(t => t.id === id ? { ...t, eq } : t), `eq-${id}`);
+  }, []);
+
+  const handleDynamicsChange = useCallback((id: string, dynamics: TrackDynamics) => {
+    editTracks(`Dynamics: ${trackName(id)}`, prev => prev.map(t => t.id === id ? { ...t, dynamics } : t), `dynamics-${id}`);
   }, []);
 
   const handleMuteToggle = useCallback((id: string) => {
-    setTracks(prev => prev.map(t => t.id === id ? { ...t, isMuted: !t.isMuted } : t));
+    editTracks(`Mute: ${trackName(id)}`, prev => prev.map(t => t.id === id ? { ...t, isMuted: !t.isMuted } : t));
   }, []);
 
   const handleSoloToggle = useCallback((id: string) => {
-    setTracks(prev => {
+    editTracks(`Solo: ${trackName(id)}`, prev => {
         const toggledTrack = prev.find(t => t.id === id);
         if (!toggledTrack) return prev;
         const newSoloState = !toggledTrack.isSolo;
@@ -191,94 +541,299 @@ const App: React.FC = () => {
   }, []);
 
   const handleRemoveTrack = useCallback((id: string) => {
-    setTracks(prev => prev.filter(t => t.id !== id));
+    const index = tracksRef.current.findIndex(t => t.id === id);
+    if (index < 0) return;
+    commit(createRemoveCommand(tracksRef.current[index], index));
+  }, []);
+
+  const handleClearTracks = () => {
+    if (tracksRef.current.length === 0) return;
+    commit(createClearCommand(tracksRef.current));
+  };
+
+  const handleClipsChange = useCallback((id: string, clips: AudioClip[]) => {
+    editTracks(`Edit clips: ${trackName(id)}`, prev => prev.map(t => t.id === id ? { ...t, clips } : t));
   }, []);
 
   const handleTrackReady = useCallback((id: string, ws: WaveSurfer, buffer: AudioBuffer) => {
     setTracks(prev => prev.map(t => {
       if (t.id !== id) return t;
-      if (buffer.duration > maxDurationRef.current) {
-        maxDurationRef.current = buffer.duration;
-        setPlayback(p => ({ ...p, duration: buffer.duration }));
-      }
-      return { ...t, wavesurfer: ws, audioBuffer: buffer, duration: buffer.duration };
+      // A freshly imported file becomes a single clip spanning the whole file
+      const clips = t.clips.length > 0 ? t.clips : [createClip(0, 0, buffer.duration)];
+      return { ...t, wavesurfer: ws, audioBuffer: buffer, duration: buffer.duration, clips };
     }));
   }, []);
 
+  // The transport anchors the position to the AudioContext clock and
+  // schedules every track from it
+  const startPlayback = useCallback((position: number) => {
+    const transport = transportRef.current;
+    if (!transport) return;
+    transport.play(position);
+    setPlayback(prev => ({ ...prev, isPlaying: true, currentTime: position }));
+  }, []);
+
   const togglePlay = () => {
     if (audioContextRef.current?.state === 'suspended') {
         audioContextRef.current.resume();
     }
 
-    if (playback.currentTime >= playback.duration && playback.duration > 0) {
-      stop();
-      setTimeout(() => {
-        setPlayback(prev => ({ ...prev, isPlaying: true }));
-      }, 50);
+    if (playback.isPlaying) {
+      transportRef.current?.stop();
+      setPlayback(prev => ({ ...prev, isPlaying: false }));
       return;
     }
-    setPlayback(prev => ({ ...prev, isPlaying: !prev.isPlaying }));
+
+    // Restart from the top when the playhead is parked at the end
+    const atEnd = playback.currentTime >= playback.duration && playback.duration > 0;
+    startPlayback(atEnd ? 0 : playback.currentTime);
   };
 
   const stop = () => {
+    transportRef.current?.stop();
     setPlayback(prev => ({ ...prev, isPlaying: false, currentTime: 0 }));
-    tracks.forEach(t => {
-      if (t.wavesurfer) {
-        t.wavesurfer.stop();
-      }
-    });
   };
 
-  const handleExport = async (format: 'wav' | 'mp3') => {
+  // Looping needs a range: the loop dragged out on the timeline, or else the in/out range
+  const toggleLoop = () => {
+    if (!loopRange && !exportRange) return;
+    if (!loopRange) setLoopRange(exportRange);
+    setIsLooping(!isLooping);
+  };
+
+  // Dragging out a loop switches looping on
+  const handleLoopChange = (range: TimeRange | null) => {
+    setLoopRange(range);
+    setIsLooping(range !== null);
+  };
+
+  // Clip, range, loop and marker drags land on the nearest beat while snapping is on.
+  // Memoized so the TrackRows don't re-render on every playhead update.
+  const snapTime = useMemo(
+    () => isSnapping ? (time: number) => snapToBeat(tempo, time) : undefined,
+    [isSnapping, tempo],
+  );
+
+  // "Export loop region" renders exactly the loop, without pre- and post-roll
+  const isLoopExport = exportSettings.exportLoop && loopRange !== null;
+  const bounceRange = isLoopExport ? loopRange : exportRange;
+  const bounceSettings = isLoopExport ? { ...exportSettings, preRoll: 0, postRoll: 0 } : exportSettings;
+
+  const handleExport = async (format: ExportFormat) => {
     setIsBounceMenuOpen(false); // Close menu immediately
     if (tracks.length === 0) return;
     setPlayback(prev => ({ ...prev, isExporting: true }));
     try {
-      const blob = await bounceTracks(tracks, masterVolume, format);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `mix_bounce.${format}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const { blob, loudness } = await bounceTracks(
+        tracks, masterVolume, format, limiter, loudnessTarget, bounceSettings, bounceRange, metadata, markers,
+        exportSettings.includeClick ? tempo : null, setEncodeProgress,
+      );
+      setLastLoudness(loudness);
+      const fileName = `${formatFileName(metadata.fileNameTemplate, metadata, exportVersion)}.${format}`;
+      downloadBlob(blob, fileName);
+      const fileMarkers = getMarkersInSpan(markers, getExportSpan(playback.duration, bounceRange, bounceSettings));
+      if (exportSettings.cueSheet && fileMarkers.length > 0) {
+        const cueSheet = createCueSheet(fileMarkers, fileName, format, metadata);
+        downloadBlob(new Blob([cueSheet], { type: 'application/x-cue' }), fileName.replace(/\.\w+$/, '.cue'));
+      }
+      setExportVersion(exportVersion + 1);
     } catch (err) {
       console.error("Export failed", err);
       alert("Failed to export tracks. See console for details.");
     } finally {
+      setEncodeProgress(null);
       setPlayback(prev => ({ ...prev, isExporting: false }));
     }
   };
 
-  const handleSeek = (time: number) => {
-    const safeTime = Math.max(0, Math.min(time, playback.duration));
-    const progress = playback.duration > 0 ? safeTime / playback.duration : 0;
-    
-    setPlayback(prev => ({ ...prev, currentTime: safeTime }));
-    tracks.forEach(t => {
-      if (t.wavesurfer) {
-        t.wavesurfer.seekTo(progress);
-      }
-    });
+  const handleExportStems = async (format: ExportFormat) => {
+    setIsBounceMenuOpen(false);
+    if (tracks.length === 0) return;
+    setPlayback(prev => ({ ...prev, isExporting: true }));
+    setStemProgress([]);
+    try {
+      const zip = await bounceStems(tracks, masterVolume, format, bounceSettings, bounceRange, setStemProgress);
+      downloadBlob(zip, `${formatFileName(metadata.fileNameTemplate, metadata, exportVersion)}_stems.zip`);
+      setExportVersion(exportVersion + 1);
+    } catch (err) {
+      console.error("Stem export failed", err);
+      alert(err instanceof Error ? err.message : "Failed to export stems. See console for details.");
+    } finally {
+      setStemProgress(null);
+      setPlayback(prev => ({ ...prev, isExporting: false }));
+    }
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSaveProject = async () => {
+    if (tracks.length === 0) return;
+    try {
+      const bundle = await saveProject({ tracks, masterVolume, limiter, loudnessTarget, markers, tempo });
+      downloadBlob(bundle, `mix_project${PROJECT_EXTENSION}`);
+    } catch (err) {
+      console.error("Saving project failed", err);
+      alert("Failed to save the project. See console for details.");
+    }
+  };
+
+  // Replaces the whole session (used by Open Project and autosave restore)
+  const applySession = (session: ProjectSession, playhead: number = 0) => {
+    stop();
+    setTracks(session.tracks);
+    tracksRef.current = session.tracks;
+    setHistoryState(createHistory());
+    setMasterVolume(session.masterVolume);
+    setLimiter(session.limiter);
+    setLoudnessTarget(session.loudnessTarget);
+    setMarkers(sortMarkers(session.markers));
+    setTempo(session.tempo);
+    setLastLoudness(null);
+    setExportRange(null);
+    setLoopRange(null);
+    setIsLooping(false);
+    setPlayback(prev => ({ ...prev, currentTime: playhead }));
+    if (audioContextRef.current?.state === 'suspended') {
+      audioContextRef.current.resume();
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow reopening the same file
+    if (!file) return;
+    if (tracks.length > 0 && !window.confirm("Opening a project replaces the current session. Continue?")) return;
+
+    try {
+      applySession(await openProject(file));
+    } catch (err) {
+      console.error("Opening project failed", err);
+      alert(err instanceof Error ? err.message : "Failed to open the project.");
+    }
+  };
+
+  const handleRestoreSession = async () => {
+    setPendingRestore(null);
+    try {
+      const session = await restoreAutosave();
+      if (session) applySession(session, session.playhead);
+    } catch (err) {
+      console.error("Restoring session failed", err);
+      alert("The previous session could not be restored.");
+    } finally {
+      setIsAutosaveReady(true);
+    }
+  };
+
+  const handleDiscardSession = () => {
+    setPendingRestore(null);
+    clearAutosave()
+      .catch(err => console.warn("Could not clear the saved session", err))
+      .finally(() => setIsAutosaveReady(true));
   };
 
+  const handleSeek = useCallback((time: number) => {
+    const { duration, isPlaying } = playbackRef.current;
+    const safeTime = Math.max(0, Math.min(time, duration));
+    if (isPlaying) {
+      startPlayback(safeTime);
+    } else {
+      setPlayback(prev => ({ ...prev, currentTime: safeTime }));
+    }
+  }, [startPlayback]);
+
   const handleSeekInput = (e: React.ChangeEvent<HTMLInputElement>) => {
       handleSeek(parseFloat(e.target.value));
   }
 
+  // --- Markers ---
+  const handleMarkersChange = (next: Marker[]) => setMarkers(sortMarkers(next));
+
+  const addMarker = () => {
+    const time = playbackRef.current.currentTime;
+    setMarkers(prev => sortMarkers([...prev, createMarker(getNextMarkerName(prev, false), time)]));
+  };
+
+  const addRegion = () => {
+    if (!exportRange) return;
+    const { start, end } = exportRange;
+    setMarkers(prev => sortMarkers([...prev, createMarker(getNextMarkerName(prev, true), start, end)]));
+  };
+
+  // Latest handlers for the shortcuts below
+  const markerKeysRef = useRef({ markers, addMarker, addRegion, seek: handleSeek });
+  markerKeysRef.current = { markers, addMarker, addRegion, seek: handleSeek };
+
+  const toggleLoopRef = useRef(toggleLoop);
+  toggleLoopRef.current = toggleLoop;
+
+  // L toggles the loop
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat || e.key.toLowerCase() !== 'l') return;
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLInputElement && target.type !== 'range') return;
+      if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement || target.isContentEditable) return;
+      toggleLoopRef.current();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // M adds a marker at the playhead, Shift+M a region from the in/out range.
+  // 1-9 jump to a marker, [ and ] to the previous/next one.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLInputElement && target.type !== 'range') return;
+      if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement || target.isContentEditable) return;
+      if (playbackRef.current.duration <= 0) return;
+
+      const { markers, addMarker, addRegion, seek } = markerKeysRef.current;
+      const currentTime = playbackRef.current.currentTime;
+      if (e.key.toLowerCase() === 'm') {
+        if (e.shiftKey) {
+          addRegion();
+        } else {
+          addMarker();
+        }
+      } else if (/^[1-9]$/.test(e.key)) {
+        const marker = markers[parseInt(e.key) - 1];
+        if (marker) seek(marker.start);
+      } else if (e.key === '[') {
+        // A little slack so pressing it again right after a jump goes further back
+        const previous = [...markers].reverse().find(m => m.start < currentTime - 0.05);
+        seek(previous ? previous.start : 0);
+      } else if (e.key === ']') {
+        const next = markers.find(m => m.start > currentTime + 0.05);
+        if (next) seek(next.start);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   useEffect(() => {
     let animationFrameId: number;
     const updateTime = () => {
-      if (playback.isPlaying && tracks.length > 0) {
-        const activeTrack = tracks.find(t => t.wavesurfer);
-        if (activeTrack && activeTrack.wavesurfer) {
-          const time = activeTrack.wavesurfer.getCurrentTime();
-          setPlayback(prev => ({ ...prev, currentTime: time }));
-          if (time >= playback.duration && playback.duration > 0) {
-            setPlayback(prev => ({...prev, isPlaying: false }));
-          }
+      const time = transportRef.current?.getPosition() ?? null;
+      if (playback.isPlaying && time !== null) {
+        if (time >= playback.duration && playback.duration > 0) {
+          transportRef.current?.stop();
+          setPlayback(prev => ({ ...prev, isPlaying: false, currentTime: prev.duration }));
+          return;
         }
+        setPlayback(prev => ({ ...prev, currentTime: time }));
       }
       animationFrameId = requestAnimationFrame(updateTime);
     };
@@ -286,7 +841,51 @@ const App: React.FC = () => {
       updateTime();
     }
     return () => cancelAnimationFrame(animationFrameId);
-  }, [playback.isPlaying, playback.duration, tracks]);
+  }, [playback.isPlaying, playback.duration]);
+
+  // Keep the view inside the session when its length changes
+  useEffect(() => {
+    setTimelineView(view => clampTimelineView(view, playback.duration));
+  }, [playback.duration]);
+
+  // Page the view along when the playhead runs off its edge
+  useEffect(() => {
+    const previous = lastPlayheadRef.current;
+    lastPlayheadRef.current = playback.currentTime;
+    setTimelineView(view => {
+      const span = getVisibleSpan(view, playback.duration);
+      const isVisible = (time: number) => time >= view.scroll && time <= view.scroll + span;
+      if (view.zoom <= 1 || !isVisible(previous) || isVisible(playback.currentTime)) return view;
+      return clampTimelineView({ ...view, scroll: playback.currentTime }, playback.duration);
+    });
+  }, [playback.currentTime, playback.duration]);
+
+  // Ctrl/⌘ + wheel zooms around the pointer, Shift + wheel (or a sideways swipe) scrolls.
+  // A native listener, because React's wheel handlers can't prevent the page from scrolling.
+  useEffect(() => {
+    const area = tracksAreaRef.current;
+    if (!area) return;
+    const handleWheel = (e: WheelEvent) => {
+      const lane = (e.target as HTMLElement).closest('[data-timeline-lane]');
+      const duration = playbackRef.current.duration;
+      if (!lane || duration <= 0) return;
+      const rect = lane.getBoundingClientRect();
+
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        setTimelineView(view => {
+          const anchor = view.scroll + ((e.clientX - rect.left) / rect.width) * getVisibleSpan(view, duration);
+          return zoomTimelineView(view, duration, Math.exp(-e.deltaY * 0.002), anchor);
+        });
+      } else if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        e.preventDefault();
+        const delta = e.shiftKey && e.deltaX === 0 ? e.deltaY : e.deltaX;
+        setTimelineView(view => scrollTimelineView(view, duration, (delta / rect.width) * getVisibleSpan(view, duration)));
+      }
+    };
+    area.addEventListener('wheel', handleWheel, { passive: false });
+    return () => area.removeEventListener('wheel', handleWheel);
+  }, [tracks.length > 0]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -294,14 +893,35 @@ const App: React.FC = () => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // m:ss.t, for the in/out points
+  const formatTimePrecise = (seconds: number) => {
+    const tenths = Math.round(seconds * 10);
+    const secs = ((tenths % 600) / 10).toFixed(1);
+    return `${Math.floor(tenths / 600)}:${secs.padStart(4, '0')}`;
+  };
+
   const getFooterTime = () => {
-      if (!showRemaining) return formatTime(playback.currentTime);
+      if (footerTimeMode === 'bars') return formatBarsBeats(tempo, playback.currentTime);
+      if (footerTimeMode === 'elapsed') return formatTime(playback.currentTime);
       const remaining = Math.max(0, playback.duration - playback.currentTime);
       return `-${formatTime(remaining)}`;
   };
 
-  const estimateWav = estimateFileSize(playback.duration, 'wav');
-  const estimateMp3 = estimateFileSize(playback.duration, 'mp3');
+  // Elapsed -> remaining -> bars|beats
+  const cycleFooterTimeMode = () => {
+      setFooterTimeMode(footerTimeMode === 'elapsed' ? 'remaining' : footerTimeMode === 'remaining' ? 'bars' : 'elapsed');
+  };
+
+  const exportSpan = getExportSpan(playback.duration, bounceRange, bounceSettings);
+  const estimateWav = estimateFileSize(exportSpan.end - exportSpan.start, 'wav', exportSettings);
+  const estimateMp3 = estimateFileSize(exportSpan.end - exportSpan.start, 'mp3', exportSettings);
+  const estimateFlac = estimateFileSize(exportSpan.end - exportSpan.start, 'flac', exportSettings);
+
+  const loudnessPresetIndex = loudnessTarget
+    ? LOUDNESS_PRESETS.findIndex(p => p.target.integrated === loudnessTarget.integrated)
+    : -1;
+  const formatLoudness = (m: LoudnessMeasurement) =>
+    `${isFinite(m.integrated) ? m.integrated.toFixed(1) : '-inf'} LUFS • ${isFinite(m.truePeak) ? m.truePeak.toFixed(1) : '-inf'} dBTP`;
 
   return (
     <div 
@@ -312,6 +932,13 @@ const App: React.FC = () => {
       onDrop={handleDrop}
     >
       <HelpModal isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
+      <MetadataPanel
+        isOpen={isMetadataOpen}
+        metadata={metadata}
+        version={exportVersion}
+        onChange={setMetadata}
+        onClose={() => setIsMetadataOpen(false)}
+      />
 
       {/* Header */}
       <header className="h-14 flex-shrink-0 border-b border-daw-border bg-daw-panel flex items-center justify-between px-4 sticky top-0 z-50">
@@ -333,6 +960,42 @@ const App: React.FC = () => {
             <CircleHelp size={14} />
             <span className="hidden md:inline">How to use</span>
           </button>
+
+          <label
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md text-daw-muted hover:text-white hover:bg-daw-bg/50 transition-colors text-xs font-medium border border-transparent hover:border-daw-border cursor-pointer"
+            title="Open Project"
+          >
+            <FolderOpen size={14} />
+            <span className="hidden md:inline">Open</span>
+            <input type="file" accept={`${PROJECT_EXTENSION},.zip`} onChange={handleOpenProject} className="hidden" />
+          </label>
+          <button
+            onClick={handleSaveProject}
+            disabled={tracks.length === 0}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md text-daw-muted hover:text-white hover:bg-daw-bg/50 transition-colors text-xs font-medium border border-transparent hover:border-daw-border disabled:opacity-50 disabled:pointer-events-none"
+            title="Save Project (settings + audio files in one bundle)"
+          >
+            <Save size={14} />
+            <span className="hidden md:inline">Save</span>
+          </button>
+
+          <div className="w-[1px] h-5 bg-daw-border"></div>
+          <HistoryMenu history={history} onUndo={undo} onRedo={redo} onJump={jumpToHistory} />
+          <MarkerList
+            markers={markers}
+            canAddRegion={exportRange !== null}
+            onChange={handleMarkersChange}
+            onSeek={handleSeek}
+            onAddMarker={addMarker}
+            onAddRegion={addRegion}
+          />
+          <TempoMenu
+            tempo={tempo}
+            currentTime={playback.currentTime}
+            isSnapping={isSnapping}
+            onChange={setTempo}
+            onSnapChange={setIsSnapping}
+          />
         </div>
 
         <div className="flex items-center gap-4">
@@ -349,6 +1012,25 @@ const App: React.FC = () => {
                 >
                     {playback.isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" />}
                 </button>
+                <button
+                  onClick={toggleLoop}
+                  disabled={!loopRange && !exportRange}
+                  className={`p-1.5 ml-1 rounded-md transition-all disabled:opacity-30 ${
+                    isLooping ? 'bg-sky-500/20 text-sky-300' : 'hover:text-sky-300'
+                  }`}
+                  title={loopRange || exportRange ? "Loop (L)" : "Loop (L): Alt+drag on the timeline to set a loop range"}
+                >
+                    <Repeat size={16} />
+                </button>
+                <button
+                  onClick={() => setIsMetronomeOn(!isMetronomeOn)}
+                  className={`p-1.5 ml-1 rounded-md transition-all ${
+                    isMetronomeOn ? 'bg-amber-500/20 text-amber-300' : 'hover:text-amber-300'
+                  }`}
+                  title={`Metronome (${tempo.bpm} BPM, ${tempo.beatsPerBar}/${tempo.beatUnit})`}
+                >
+                    <Drum size={16} />
+                </button>
             </div>
 
             <div className="font-mono text-lg text-daw-accent w-24 text-center bg-daw-bg py-0.5 px-2 rounded border border-daw-border">
@@ -366,7 +1048,7 @@ const App: React.FC = () => {
                     } disabled:opacity-50 disabled:cursor-not-allowed`}
                 >
                     {playback.isExporting ? (
-                        'Processing...'
+                        encodeProgress !== null ? `Encoding ${Math.round(encodeProgress * 100)}%` : 'Processing...'
                     ) : (
                         <>
                            <Download size={16} /> 
@@ -382,6 +1064,265 @@ const App: React.FC = () => {
                         <div className="p-2 border-b border-daw-border bg-daw-bg/50">
                             <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Select Format</span>
                         </div>
+                        {/* Metadata */}
+                        <button
+                            onClick={() => { setIsBounceMenuOpen(false); setIsMetadataOpen(true); }}
+                            className="w-full flex items-center gap-2 px-3 py-2 border-b border-daw-border hover:bg-daw-bg text-left transition-colors"
+                            title="Title, artist, cover art and file name"
+                        >
+                            <Tag size={14} className="text-daw-accent flex-shrink-0" />
+                            <span className="text-xs font-bold flex-shrink-0">Metadata</span>
+                            <span className="text-[10px] font-mono text-daw-muted truncate ml-auto">
+                                {formatFileName(metadata.fileNameTemplate, metadata, exportVersion)}
+                            </span>
+                        </button>
+                        {/* Format Settings */}
+                        <div className="p-3 border-b border-daw-border grid grid-cols-3 gap-2">
+                            <label className="flex flex-col gap-1">
+                                <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Rate</span>
+                                <select
+                                    value={exportSettings.sampleRate}
+                                    onChange={(e) => setExportSettings({ ...exportSettings, sampleRate: parseInt(e.target.value) })}
+                                    className="bg-daw-bg border border-daw-border rounded text-xs px-1 py-0.5 outline-none"
+                                >
+                                    {EXPORT_SAMPLE_RATES.map(rate => (
+                                        <option key={rate} value={rate}>{formatSampleRate(rate)}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-1">
+                                <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Bit depth</span>
+                                <select
+                                    value={exportSettings.bitDepth}
+                                    onChange={(e) => setExportSettings({ ...exportSettings, bitDepth: parseInt(e.target.value) as ExportBitDepth })}
+                                    className="bg-daw-bg border border-daw-border rounded text-xs px-1 py-0.5 outline-none"
+                                    title="WAV only"
+                                >
+                                    {([16, 24, 32] as ExportBitDepth[]).map(depth => (
+                                        <option key={depth} value={depth}>{BIT_DEPTH_LABELS[depth]}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-1">
+                                <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Channels</span>
+                                <select
+                                    value={exportSettings.channels}
+                                    onChange={(e) => setExportSettings({ ...exportSettings, channels: e.target.value === '1' ? 1 : 2 })}
+                                    className="bg-daw-bg border border-daw-border rounded text-xs px-1 py-0.5 outline-none"
+                                >
+                                    <option value={2}>Stereo</option>
+                                    <option value={1}>Mono</option>
+                                </select>
+                            </label>
+                            <label className="col-span-3 flex items-center justify-between gap-2">
+                                <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Dither</span>
+                                <select
+                                    value={exportSettings.dither}
+                                    onChange={(e) => setExportSettings({ ...exportSettings, dither: e.target.value as DitherMode })}
+                                    className="bg-daw-bg border border-daw-border rounded text-xs px-1 py-0.5 outline-none"
+                                    title="Applied to 16/24-bit WAV and FLAC; 32-bit float and MP3 need none"
+                                >
+                                    {(Object.keys(DITHER_LABELS) as DitherMode[]).map(mode => (
+                                        <option key={mode} value={mode}>{DITHER_LABELS[mode]}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="col-span-3 flex items-center justify-between gap-2">
+                                <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">FLAC level</span>
+                                <select
+                                    value={exportSettings.flacCompression}
+                                    onChange={(e) => setExportSettings({ ...exportSettings, flacCompression: parseInt(e.target.value) })}
+                                    className="bg-daw-bg border border-daw-border rounded text-xs px-1 py-0.5 outline-none"
+                                    title="Higher levels give smaller files but take longer; the audio is identical"
+                                >
+                                    {FLAC_COMPRESSION_LEVELS.map(level => (
+                                        <option key={level} value={level}>
+                                            {level}{level === 0 ? ' (fastest)' : level === 8 ? ' (smallest)' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <div className="col-span-3 flex items-center justify-between gap-2">
+                                <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">MP3</span>
+                                <div className="flex gap-1">
+                                    <select
+                                        value={exportSettings.mp3Mode}
+                                        onChange={(e) => setExportSettings({ ...exportSettings, mp3Mode: e.target.value as Mp3Mode })}
+                                        className="bg-daw-bg border border-daw-border rounded text-xs px-1 py-0.5 outline-none"
+                                        title="CBR: fixed bitrate. VBR: fixed quality, the bitrate follows the music. The bundled encoder has no ABR."
+                                    >
+                                        {(Object.keys(MP3_MODE_LABELS) as Mp3Mode[]).map(mode => (
+                                            <option key={mode} value={mode}>{MP3_MODE_LABELS[mode]}</option>
+                                        ))}
+                                    </select>
+                                    {exportSettings.mp3Mode === 'vbr' ? (
+                                        <select
+                                            value={exportSettings.mp3Quality}
+                                            onChange={(e) => setExportSettings({ ...exportSettings, mp3Quality: parseInt(e.target.value) })}
+                                            className="bg-daw-bg border border-daw-border rounded text-xs px-1 py-0.5 outline-none"
+                                            title="V0 is the best quality, V9 the smallest file"
+                                        >
+                                            {MP3_VBR_QUALITIES.map(quality => (
+                                                <option key={quality} value={quality}>
+                                                    V{quality}{quality === 0 ? ' (best)' : quality === 9 ? ' (smallest)' : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <select
+                                            value={exportSettings.mp3Bitrate}
+                                            onChange={(e) => setExportSettings({ ...exportSettings, mp3Bitrate: parseInt(e.target.value) })}
+                                            className="bg-daw-bg border border-daw-border rounded text-xs px-1 py-0.5 outline-none"
+                                        >
+                                            {MP3_BITRATES.map(bitrate => (
+                                                <option key={bitrate} value={bitrate}>{bitrate} kbps</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                    <span
+                                        className="text-xs text-daw-muted px-1 py-0.5"
+                                        title="The bundled encoder always writes a stereo render as joint stereo. Set Channels to Mono for a mono file."
+                                    >
+                                        {exportSettings.channels === 1 ? 'Mono' : 'Joint stereo'}
+                                    </span>
+                                </div>
+                            </div>
+                            <label className="col-span-3 flex items-center justify-between gap-2 cursor-pointer" title="Markers are always written into WAV (cue points) and MP3 (chapters)">
+                                <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">CUE sheet with markers</span>
+                                <input
+                                    type="checkbox"
+                                    checked={exportSettings.cueSheet}
+                                    onChange={(e) => setExportSettings({ ...exportSettings, cueSheet: e.target.checked })}
+                                    className="accent-daw-accent"
+                                />
+                            </label>
+                            <label className="col-span-3 flex items-center justify-between gap-2 cursor-pointer" title="Stems never include the click">
+                                <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Include metronome click</span>
+                                <input
+                                    type="checkbox"
+                                    checked={exportSettings.includeClick}
+                                    onChange={(e) => setExportSettings({ ...exportSettings, includeClick: e.target.checked })}
+                                    className="accent-daw-accent"
+                                />
+                            </label>
+                        </div>
+                        {/* Export Range */}
+                        <div className="p-3 border-b border-daw-border flex flex-col gap-2">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs font-bold">Range</span>
+                                {isLoopExport ? (
+                                    <span className="text-xs font-mono text-sky-300">
+                                        {formatTimePrecise(loopRange.start)} – {formatTimePrecise(loopRange.end)}
+                                    </span>
+                                ) : exportRange ? (
+                                    <span className="flex items-center gap-2 text-xs font-mono text-amber-400">
+                                        {formatTimePrecise(exportRange.start)} – {formatTimePrecise(exportRange.end)}
+                                        <button
+                                            onClick={() => setExportRange(null)}
+                                            className="font-sans text-[10px] text-daw-muted hover:text-white"
+                                            title="Export the whole session"
+                                        >
+                                            Clear
+                                        </button>
+                                    </span>
+                                ) : (
+                                    <span className="text-xs text-daw-muted">Whole session</span>
+                                )}
+                            </div>
+                            {isLoopExport ? (
+                                <p className="text-[10px] text-daw-muted leading-tight">
+                                    Exactly the loop region, without pre- or post-roll.
+                                </p>
+                            ) : exportRange ? (
+                                <div className="grid grid-cols-2 gap-2 text-[10px] text-daw-muted">
+                                    {(['preRoll', 'postRoll'] as const).map(key => (
+                                        <label key={key} className="flex items-center justify-between gap-1">
+                                            <span>{key === 'preRoll' ? 'Pre-roll' : 'Post-roll'}</span>
+                                            <span className="flex items-center gap-1">
+                                                <input
+                                                    type="number"
+                                                    step="0.5"
+                                                    min="0"
+                                                    max="30"
+                                                    value={exportSettings[key]}
+                                                    onChange={(e) => {
+                                                        const value = parseFloat(e.target.value);
+                                                        if (!isNaN(value)) setExportSettings({ ...exportSettings, [key]: Math.max(0, Math.min(30, value)) });
+                                                    }}
+                                                    className="w-12 bg-daw-bg border border-daw-border rounded text-right font-mono text-daw-text px-1 py-0.5 outline-none"
+                                                />
+                                                s
+                                            </span>
+                                        </label>
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className="text-[10px] text-daw-muted leading-tight">
+                                    Press <strong>I</strong> / <strong>O</strong> to set in and out at the playhead, or Shift+drag on the timeline.
+                                </p>
+                            )}
+                            {loopRange && (
+                                <label className="flex items-center justify-between gap-2 cursor-pointer">
+                                    <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Export loop region</span>
+                                    <input
+                                        type="checkbox"
+                                        checked={exportSettings.exportLoop}
+                                        onChange={(e) => setExportSettings({ ...exportSettings, exportLoop: e.target.checked })}
+                                        className="accent-daw-accent"
+                                    />
+                                </label>
+                            )}
+                        </div>
+                        {/* Loudness Normalization */}
+                        <div className="p-3 border-b border-daw-border flex flex-col gap-2">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs font-bold">Normalize</span>
+                                <select
+                                    value={loudnessPresetIndex}
+                                    onChange={(e) => {
+                                        const index = parseInt(e.target.value);
+                                        setLoudnessTarget(index < 0 ? null : { ...LOUDNESS_PRESETS[index].target, truePeak: loudnessTarget?.truePeak ?? LOUDNESS_PRESETS[index].target.truePeak });
+                                    }}
+                                    className="bg-daw-bg border border-daw-border rounded text-xs px-1 py-0.5 outline-none"
+                                >
+                                    <option value={-1}>Off</option>
+                                    {LOUDNESS_PRESETS.map((preset, i) => (
+                                        <option key={preset.label} value={i}>{preset.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            {loudnessTarget && (
+                                <div className="flex items-center justify-between gap-2 text-[10px] text-daw-muted">
+                                    <span>True-peak limit</span>
+                                    <span className="flex items-center gap-1">
+                                        <input
+                                            type="number"
+                                            step="0.1"
+                                            max="0"
+                                            min="-9"
+                                            value={loudnessTarget.truePeak}
+                                            onChange={(e) => {
+                                                const value = parseFloat(e.target.value);
+                                                if (!isNaN(value)) setLoudnessTarget({ ...loudnessTarget, truePeak: Math.max(-9, Math.min(0, value)) });
+                                            }}
+                                            className="w-14 bg-daw-bg border border-daw-border rounded text-right font-mono text-daw-text px-1 py-0.5 outline-none"
+                                        />
+                                        dBTP
+                                    </span>
+                                </div>
+                            )}
+                            {lastLoudness && (
+                                <div className="text-[10px] font-mono bg-daw-bg rounded border border-daw-border p-2 flex flex-col gap-0.5">
+                                    <span className="text-daw-muted uppercase tracking-wider font-sans font-bold">Last export</span>
+                                    <span><span className="text-daw-muted">Before:</span> {formatLoudness(lastLoudness.before)}</span>
+                                    <span><span className="text-daw-muted">After:</span> <span className="text-daw-accent">{formatLoudness(lastLoudness.after)}</span></span>
+                                    <span className="text-daw-muted">
+                                        Gain {lastLoudness.gain >= 0 ? '+' : ''}{lastLoudness.gain.toFixed(1)} dB
+                                        {lastLoudness.after.integrated < lastLoudness.target.integrated - 0.05 && ' (held back by true-peak limit)'}
+                                    </span>
+                                </div>
+                            )}
+                        </div>
                         <div className="p-1">
                             <button 
                                 onClick={() => handleExport('wav')}
@@ -393,7 +1334,7 @@ const App: React.FC = () => {
                                     </div>
                                     <div className="flex flex-col min-w-0">
                                         <span className="font-bold text-sm truncate">WAV (PCM)</span>
-                                        <span className="text-[10px] text-daw-muted whitespace-nowrap">Lossless • 44.1kHz • 16-bit</span>
+                                        <span className="text-[10px] text-daw-muted whitespace-nowrap">Lossless • {formatSampleRate(exportSettings.sampleRate)} • {BIT_DEPTH_LABELS[exportSettings.bitDepth]}</span>
                                     </div>
                                 </div>
                                 <span className="text-xs font-mono text-daw-accent bg-daw-bg px-2 py-1 rounded border border-daw-border group-hover:border-daw-accent/50 whitespace-nowrap flex-shrink-0">
@@ -401,6 +1342,24 @@ const App: React.FC = () => {
                                 </span>
                             </button>
                             
+                            <button 
+                                onClick={() => handleExport('flac')}
+                                className="w-full flex items-center justify-between p-3 hover:bg-daw-bg rounded-md group transition-colors text-left gap-4"
+                            >
+                                <div className="flex items-center gap-3 min-w-0">
+                                    <div className="flex-shrink-0 p-2 bg-purple-500/10 text-purple-400 rounded group-hover:bg-purple-500 group-hover:text-white transition-colors">
+                                        <FileAudio size={20} />
+                                    </div>
+                                    <div className="flex flex-col min-w-0">
+                                        <span className="font-bold text-sm truncate">FLAC</span>
+                                        <span className="text-[10px] text-daw-muted whitespace-nowrap">Lossless, compressed • {formatSampleRate(exportSettings.sampleRate)} • {getFlacBitDepth(exportSettings)}-bit</span>
+                                    </div>
+                                </div>
+                                <span className="text-xs font-mono text-daw-accent bg-daw-bg px-2 py-1 rounded border border-daw-border group-hover:border-daw-accent/50 whitespace-nowrap flex-shrink-0">
+                                    ~{estimateFlac}
+                                </span>
+                            </button>
+
                             <button 
                                 onClick={() => handleExport('mp3')}
                                 className="w-full flex items-center justify-between p-3 hover:bg-daw-bg rounded-md group transition-colors text-left gap-4"
@@ -411,7 +1370,7 @@ const App: React.FC = () => {
                                     </div>
                                     <div className="flex flex-col min-w-0">
                                         <span className="font-bold text-sm truncate">MP3</span>
-                                        <span className="text-[10px] text-daw-muted whitespace-nowrap">Compressed • 320kbps</span>
+                                        <span className="text-[10px] text-daw-muted whitespace-nowrap">Compressed • {describeMp3Options(getMp3Options(exportSettings))}{exportSettings.sampleRate > 48000 && ` • ${formatSampleRate(getMp3SampleRate(exportSettings.sampleRate))}`}</span>
                                     </div>
                                 </div>
                                 <span className="text-xs font-mono text-daw-accent bg-daw-bg px-2 py-1 rounded border border-daw-border group-hover:border-daw-accent/50 whitespace-nowrap flex-shrink-0">
@@ -419,6 +1378,57 @@ const App: React.FC = () => {
                                 </span>
                             </button>
                         </div>
+                        {/* Stems */}
+                        <div className="p-2 border-t border-daw-border bg-daw-bg/50">
+                            <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Bounce Stems (ZIP)</span>
+                        </div>
+                        <div className="p-3 flex flex-col gap-2">
+                            <p className="text-[10px] text-daw-muted leading-tight">
+                                Every audible track as its own file with fader, pan and inserts applied, all starting at 0:00. Master limiter and normalization are left out.
+                            </p>
+                            <div className="grid grid-cols-3 gap-2">
+                                {(['wav', 'flac', 'mp3'] as const).map(format => (
+                                    <button
+                                        key={format}
+                                        onClick={() => handleExportStems(format)}
+                                        className="py-1.5 rounded-md border border-daw-border bg-daw-bg hover:border-daw-accent/50 hover:text-daw-accent text-xs font-bold transition-colors"
+                                    >
+                                        {format.toUpperCase()} stems
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Stem Progress */}
+                {stemProgress && (
+                    <div className="absolute right-0 top-full mt-2 w-80 bg-daw-panel border border-daw-border rounded-lg shadow-xl z-50 overflow-hidden">
+                        <div className="p-2 border-b border-daw-border bg-daw-bg/50 flex justify-between">
+                            <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Bouncing Stems</span>
+                            <span className="text-[10px] font-mono text-daw-muted">
+                                {stemProgress.filter(stem => stem.status === 'done').length}/{stemProgress.length}
+                            </span>
+                        </div>
+                        <div className="max-h-72 overflow-y-auto p-2 flex flex-col gap-1">
+                            {stemProgress.length === 0 && (
+                                <span className="text-xs text-daw-muted p-1">Preparing tracks...</span>
+                            )}
+                            {stemProgress.map((stem, i) => (
+                                <div key={i} className="flex flex-col gap-0.5 p-1">
+                                    <div className="flex justify-between gap-2 text-xs">
+                                        <span className="truncate">{stem.name}</span>
+                                        <span className={`text-[10px] font-mono flex-shrink-0 ${STEM_STATUS_COLORS[stem.status]}`}>{STEM_STATUS_LABELS[stem.status]}</span>
+                                    </div>
+                                    <div className="h-1 bg-daw-bg rounded overflow-hidden">
+                                        <div
+                                            className={`h-full transition-all duration-300 ${stem.status === 'done' ? 'bg-green-500' : 'bg-daw-accent'}`}
+                                            style={{ width: `${STEM_STATUS_PROGRESS[stem.status]}%` }}
+                                        />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
                     </div>
                 )}
             </div>
@@ -428,6 +1438,23 @@ const App: React.FC = () => {
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden relative">
         <main className="flex-1 overflow-y-auto p-4 relative flex flex-col">
+            {/* Restore Prompt */}
+            {pendingRestore && (
+                <div className="mb-4 flex items-center justify-between gap-4 p-3 rounded-lg border border-daw-accent/50 bg-daw-accent/10 text-sm">
+                    <span>
+                        Your previous session ({pendingRestore.trackCount} track{pendingRestore.trackCount === 1 ? '' : 's'}, saved {pendingRestore.savedAt.toLocaleString()}) was recovered. Restore it?
+                    </span>
+                    <div className="flex gap-2 flex-shrink-0">
+                        <button onClick={handleRestoreSession} className="px-3 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 font-medium">
+                            Restore
+                        </button>
+                        <button onClick={handleDiscardSession} className="px-3 py-1 rounded-md border border-daw-border hover:bg-daw-bg text-daw-muted hover:text-white">
+                            Discard
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {tracks.length === 0 ? (
             <div className={`flex-1 flex flex-col items-center justify-center border-2 border-dashed rounded-xl m-4 transition-all duration-300 ease-out ${
                 isDraggingFile 
@@ -456,31 +1483,57 @@ const App: React.FC = () => {
                 </button>
             </div>
             ) : (
-            <div className={`max-w-7xl mx-auto w-full pb-20 transition-all duration-300 ${isDraggingFile ? 'opacity-50 blur-sm scale-[0.99]' : ''}`}>
+            <div ref={tracksAreaRef} className={`max-w-7xl mx-auto w-full pb-20 transition-all duration-300 ${isDraggingFile ? 'opacity-50 blur-sm scale-[0.99]' : ''}`}>
                 <div className="flex items-center justify-between mb-2 px-1">
                     <h3 className="text-xs uppercase tracking-wider text-daw-muted font-bold">Tracks ({tracks.length})</h3>
-                    <button onClick={() => setTracks([])} className="text-xs text-red-400 hover:text-red-300 flex items-center gap-1">
+                    <button onClick={handleClearTracks} className="text-xs text-red-400 hover:text-red-300 flex items-center gap-1">
                         <Trash2 size={12} /> Clear
                     </button>
                 </div>
                 
+                <div className="sticky -top-4 z-30 bg-daw-bg pt-1">
+                    <TimeRuler
+                        duration={playback.duration}
+                        currentTime={playback.currentTime}
+                        view={timelineView}
+                        unit={rulerUnit}
+                        sampleRate={exportSettings.sampleRate}
+                        tempo={tempo}
+                        onViewChange={setTimelineView}
+                        onUnitChange={setRulerUnit}
+                        onSeek={handleSeek}
+                    />
+                </div>
+
                 <div className="space-y-1">
                     {tracks.map((track, index) => (
                         <TrackRow
                             key={track.id}
                             track={track}
                             isPlaying={playback.isPlaying}
-                            audioContext={audioContextRef.current}
+                            getPlayhead={getPlayhead}
+                            timelineDuration={playback.duration}
+                            view={timelineView}
+                            grid={rulerUnit === 'bars' ? tempo : null}
+                            snap={snapTime}
+                            audioContext={isAudioContextReady ? audioContextRef.current : null}
                             masterNode={masterGainRef.current}
+                            transport={isAudioContextReady ? transportRef.current : null}
                             onVolumeChange={handleVolumeChange}
+                            onPanChange={handlePanChange}
+                            onPanLawToggle={handlePanLawToggle}
                             onMuteToggle={handleMuteToggle}
                             onSoloToggle={handleSoloToggle}
                             onRemove={handleRemoveTrack}
+                            onClipsChange={handleClipsChange}
+                            onAutomationChange={handleAutomationChange}
+                            onEqChange={handleEqChange}
+                            onDynamicsChange={handleDynamicsChange}
+                            onSeek={handleSeek}
                             onReady={handleTrackReady}
                             isFirst={index === 0}
                             isLast={index === tracks.length - 1}
-                            onMoveUp={() => moveTrack(index, 'up')}
-                            onMoveDown={() => moveTrack(index, 'down')}
+                            onMove={moveTrack}
                         />
                     ))}
                 </div>
@@ -509,12 +1562,20 @@ const App: React.FC = () => {
             )}
         </main>
 
-        <aside className="bg-daw-bg border-l border-daw-border shadow-2xl z-20">
+        <aside className="flex bg-daw-bg border-l border-daw-border shadow-2xl z-20">
+            <StereoScope
+                analyserL={isAudioContextReady ? analyserLRef.current : null}
+                analyserR={isAudioContextReady ? analyserRRef.current : null}
+                monitor={monitor}
+                onMonitorChange={setMonitor}
+            />
             <MasterMeter 
-                analyserL={analyserLRef.current} 
-                analyserR={analyserRRef.current}
+                meter={isAudioContextReady ? meterRef.current : null}
                 masterVolume={masterVolume}
                 onMasterVolumeChange={setMasterVolume}
+                limiter={limiter}
+                onLimiterChange={setLimiter}
+                getLimiterReduction={isAudioContextReady ? limiterRef.current?.getReduction ?? null : null}
             />
         </aside>
 
@@ -528,13 +1589,21 @@ const App: React.FC = () => {
                 duration={playback.duration} 
                 currentTime={playback.currentTime}
                 onSeek={handleSeek}
+                range={exportRange}
+                onRangeChange={setExportRange}
+                loop={loopRange}
+                isLooping={isLooping}
+                onLoopChange={handleLoopChange}
+                markers={markers}
+                onMarkersChange={handleMarkersChange}
+                snap={snapTime}
             />
             
             <footer className="h-10 bg-daw-panel border-t border-daw-border px-4 flex items-center gap-3">
                 <span 
-                    onClick={() => setShowRemaining(!showRemaining)}
+                    onClick={cycleFooterTimeMode}
                     className="text-xs font-mono text-daw-muted min-w-[50px] cursor-pointer hover:text-white select-none"
-                    title="Click to toggle time mode"
+                    title="Click to switch between elapsed, remaining and bars|beats"
                 >
                     {getFooterTime()}
                 </span>
@@ -0,0 +1,225 @@
+import React, { useRef, useState } from 'react';
+import { AutomationCurve, AutomationLane as AutomationLaneData, AutomationMode, AutomationParam, AutomationPoint, TimelineView } from '../types';
+import {
+  AUTOMATION_CURVES,
+  AUTOMATION_RANGES,
+  addAutomationPoint,
+  getEnvelopeValue,
+  removeAutomationPoint,
+  updateAutomationPoint,
+} from '../services/automation';
+import { getLaneStyle } from '../services/timelineView';
+import { Playhead } from './Playhead';
+
+interface AutomationLaneProps {
+  automation: Record<AutomationParam, AutomationLaneData>;
+  fallbackValues: Record<AutomationParam, number>;
+  timelineDuration: number;
+  getPlayhead: () => number;
+  view: TimelineView;
+  onLaneChange: (param: AutomationParam, lane: AutomationLaneData) => void;
+}
+
+const MODE_LABELS: Record<AutomationMode, string> = {
+  off: 'Off',
+  read: 'Read',
+  write: 'Write',
+};
+
+const CURVE_LABELS: Record<AutomationCurve, string> = {
+  linear: 'Linear',
+  smooth: 'Smooth',
+  step: 'Step',
+};
+
+const formatValue = (param: AutomationParam, value: number) => {
+  if (param === 'pan') {
+    const amount = Math.round(Math.abs(value) * 100);
+    return amount === 0 ? 'C' : `${value < 0 ? 'L' : 'R'}${amount}`;
+  }
+  return value <= 0.0001 ? '-inf dB' : `${(20 * Math.log10(value)).toFixed(1)} dB`;
+};
+
+// Breakpoint editor shown under a TrackRow. Click empty space to add a point,
+// drag points to move them, double-click a point to delete it.
+// Like ClipOverlay, drags are previewed locally and committed on release.
+export const AutomationLane: React.FC<AutomationLaneProps> = ({
+  automation,
+  fallbackValues,
+  timelineDuration,
+  getPlayhead,
+  view,
+  onLaneChange
+}) => {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+  const [param, setParam] = useState<AutomationParam>('volume');
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [newPointCurve, setNewPointCurve] = useState<AutomationCurve>('linear');
+  const [draftPoints, setDraftPoints] = useState<AutomationPoint[] | null>(null);
+
+  const lane = automation[param];
+  const range = AUTOMATION_RANGES[param];
+  const points = draftPoints ?? lane.points;
+
+  const toX = (time: number) => timelineDuration > 0 ? time / timelineDuration : 0;
+  const toY = (value: number) => 1 - (value - range.min) / (range.max - range.min);
+
+  const getPointerPosition = (e: React.PointerEvent) => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const y = Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height));
+    return {
+      time: x * timelineDuration,
+      value: range.min + (1 - y) * (range.max - range.min),
+    };
+  };
+
+  const commitLane = (changes: Partial<AutomationLaneData>) => {
+    onLaneChange(param, { ...lane, ...changes });
+  };
+
+  const handleAreaPointerDown = (e: React.PointerEvent) => {
+    if (!areaRef.current || timelineDuration <= 0) return;
+    const { time, value } = getPointerPosition(e);
+    const next = addAutomationPoint(lane.points, { time, value, curve: newPointCurve });
+    const index = next.findIndex(p => p.time === time);
+    setDraftPoints(next);
+    setSelectedIndex(index);
+    dragIndexRef.current = index;
+    areaRef.current.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointPointerDown = (e: React.PointerEvent, index: number) => {
+    e.stopPropagation();
+    setSelectedIndex(index);
+    dragIndexRef.current = index;
+    areaRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const index = dragIndexRef.current;
+    if (index === null || !areaRef.current) return;
+    const { time, value } = getPointerPosition(e);
+    const current = draftPoints ?? lane.points;
+
+    // Points can't be dragged past their neighbours, so indices stay stable mid-drag
+    const prev = current[index - 1];
+    const next = current[index + 1];
+    const clampedTime = Math.max(prev ? prev.time : 0, Math.min(time, next ? next.time : timelineDuration));
+
+    setDraftPoints(current.map((p, i) => i === index ? { ...p, time: clampedTime, value } : p));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragIndexRef.current === null) return;
+    dragIndexRef.current = null;
+    areaRef.current?.releasePointerCapture(e.pointerId);
+    if (draftPoints) {
+      commitLane({ points: draftPoints });
+      setDraftPoints(null);
+    }
+  };
+
+  const handlePointDoubleClick = (index: number) => {
+    commitLane({ points: removeAutomationPoint(lane.points, index) });
+    setSelectedIndex(null);
+  };
+
+  const handleCurveChange = (curve: AutomationCurve) => {
+    setNewPointCurve(curve);
+    if (selectedIndex !== null && lane.points[selectedIndex]) {
+      commitLane({ points: updateAutomationPoint(lane.points, selectedIndex, { curve }) });
+    }
+  };
+
+  // Envelope outline in a 0..1 box, sampled so smooth/step segments draw as they sound
+  const getPath = () => {
+    if (points.length === 0) {
+      const y = toY(fallbackValues[param]);
+      return `M0,${y} L1,${y}`;
+    }
+    // Enough samples for the zoomed-in width
+    const samples = Math.min(20000, Math.ceil(400 * view.zoom));
+    let path = '';
+    for (let i = 0; i <= samples; i++) {
+      const x = i / samples;
+      const y = toY(getEnvelopeValue(points, x * timelineDuration, fallbackValues[param]));
+      path += `${i === 0 ? 'M' : ' L'}${x},${y}`;
+    }
+    return path;
+  };
+
+  const selectClass = "bg-daw-panel border border-daw-border rounded text-[10px] text-daw-text px-1 py-0.5 outline-none focus:border-daw-accent/50";
+
+  return (
+    <div className="flex h-16 border-t border-daw-border">
+      <div className="w-6 flex-shrink-0 bg-daw-bg/50 border-r border-daw-border" />
+
+      {/* Lane Controls */}
+      <div className="w-60 flex-shrink-0 flex items-center gap-1 px-3 border-r border-daw-border bg-daw-bg/30">
+        <select
+          value={param}
+          onChange={(e) => { setParam(e.target.value as AutomationParam); setSelectedIndex(null); }}
+          className={`${selectClass} flex-1`}
+          title="Automated parameter"
+        >
+          <option value="volume">Volume</option>
+          <option value="pan">Pan</option>
+        </select>
+        <select
+          value={lane.mode}
+          onChange={(e) => commitLane({ mode: e.target.value as AutomationMode })}
+          className={`${selectClass} ${lane.mode === 'write' ? 'text-red-400' : lane.mode === 'read' ? 'text-green-400' : ''}`}
+          title="Automation mode"
+        >
+          {(Object.keys(MODE_LABELS) as AutomationMode[]).map(mode => (
+            <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+        <select
+          value={selectedIndex !== null && points[selectedIndex] ? points[selectedIndex].curve : newPointCurve}
+          onChange={(e) => handleCurveChange(e.target.value as AutomationCurve)}
+          className={selectClass}
+          title="Curve from the selected point to the next one"
+        >
+          {AUTOMATION_CURVES.map(curve => (
+            <option key={curve} value={curve}>{CURVE_LABELS[curve]}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Envelope */}
+      <div data-timeline-lane className={`flex-1 relative overflow-hidden bg-daw-bg ${lane.mode === 'off' ? 'opacity-50' : ''}`}>
+        <div
+          ref={areaRef}
+          className="absolute top-0 bottom-0 cursor-crosshair"
+          style={getLaneStyle(view, timelineDuration)}
+          onPointerDown={handleAreaPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+            <path d={getPath()} fill="none" stroke="#eab308" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          </svg>
+
+          {points.map((point, index) => (
+            <div
+              key={index}
+              className={`absolute w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full border cursor-move z-10 ${
+                index === selectedIndex ? 'bg-yellow-400 border-white' : 'bg-daw-bg border-yellow-500 hover:bg-yellow-500'
+              }`}
+              style={{ left: `${toX(point.time) * 100}%`, top: `${toY(point.value) * 100}%` }}
+              onPointerDown={(e) => handlePointPointerDown(e, index)}
+              onDoubleClick={() => handlePointDoubleClick(index)}
+              title={`${point.time.toFixed(2)}s • ${formatValue(param, point.value)} (double-click to delete)`}
+            />
+          ))}
+
+          {/* Playhead */}
+          <Playhead getTime={getPlayhead} timelineDuration={timelineDuration} />
+        </div>
+      </div>
+    </div>
+  );
+};
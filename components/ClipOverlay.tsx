@@ -0,0 +1,273 @@
+import React, { useRef, useState } from 'react';
+import { Scissors, Copy, Trash2 } from 'lucide-react';
+import { AudioClip, TimelineView } from '../types';
+import {
+  findClipAt,
+  splitClip,
+  duplicateClip,
+  removeClip,
+  moveClip,
+  trimClipStart,
+  trimClipEnd,
+  setClipFade,
+} from '../services/clips';
+import { FADE_CURVE_LABELS, getFadeGain, getNextFadeCurve, resolveFades } from '../services/fades';
+import { getLaneStyle } from '../services/timelineView';
+import { Playhead } from './Playhead';
+
+interface ClipOverlayProps {
+  clips: AudioClip[];
+  timelineDuration: number;
+  bufferDuration: number;
+  getPlayhead: () => number;
+  view: TimelineView;
+  onClipsChange: (clips: AudioClip[]) => void;
+  onSeek: (time: number) => void;
+  snap?: (time: number) => number; // Grid for moves and trims, when snapping is on
+}
+
+type DragMode = 'move' | 'trim-start' | 'trim-end' | 'fade-in' | 'fade-out';
+
+interface DragState {
+  mode: DragMode;
+  clip: AudioClip;
+  startX: number;
+  hasMoved: boolean;
+}
+
+// SVG path (0..1 box) shading the attenuated area above a fade curve
+const getFadePath = (curve: AudioClip['fadeInCurve'], direction: 'in' | 'out') => {
+  const steps = 24;
+  let path = 'M0,0';
+  for (let i = 0; i <= steps; i++) {
+    const x = i / steps;
+    const gain = getFadeGain(curve, direction === 'in' ? x : 1 - x);
+    path += ` L${x},${1 - gain}`;
+  }
+  return `${path} L1,0 Z`;
+};
+
+// Interactive clip boxes drawn on top of a TrackRow waveform.
+// Edits are previewed locally while dragging and committed once on release,
+// so live playback is only rescheduled when the gesture is done.
+// A click that doesn't drag anything seeks there.
+export const ClipOverlay: React.FC<ClipOverlayProps> = ({
+  clips,
+  timelineDuration,
+  bufferDuration,
+  getPlayhead,
+  view,
+  onClipsChange,
+  onSeek,
+  snap = (time) => time,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [draftClips, setDraftClips] = useState<AudioClip[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const visibleClips = draftClips ?? clips;
+  // Includes the automatic crossfades, so overlaps show what will be rendered
+  const resolvedFades = resolveFades(visibleClips);
+  const toPercent = (time: number) => timelineDuration > 0 ? (time / timelineDuration) * 100 : 0;
+
+  const getTimeAt = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * timelineDuration;
+  };
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    setSelectedId(null);
+    if (timelineDuration > 0) onSeek(getTimeAt(e.clientX));
+  };
+
+  const handleClipPointerDown = (e: React.PointerEvent, clip: AudioClip, mode: DragMode) => {
+    e.stopPropagation();
+    setSelectedId(clip.id);
+    dragRef.current = { mode, clip, startX: e.clientX, hasMoved: false };
+    containerRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !containerRef.current || timelineDuration <= 0) return;
+
+    const rect = containerRef.current.getBoundingClientRect();
+    if (Math.abs(e.clientX - drag.startX) > 2) drag.hasMoved = true;
+    if (!drag.hasMoved) return;
+
+    const delta = ((e.clientX - drag.startX) / rect.width) * timelineDuration;
+    const { clip } = drag;
+
+    let edited: AudioClip;
+    if (drag.mode === 'move') {
+      edited = moveClip(clip, snap(clip.start + delta));
+    } else if (drag.mode === 'trim-start') {
+      edited = trimClipStart(clip, snap(clip.start + delta));
+    } else if (drag.mode === 'trim-end') {
+      edited = trimClipEnd(clip, snap(clip.start + clip.duration + delta), bufferDuration);
+    } else if (drag.mode === 'fade-in') {
+      edited = setClipFade(clip, 'in', clip.fadeIn + delta);
+    } else {
+      edited = setClipFade(clip, 'out', clip.fadeOut - delta);
+    }
+
+    setDraftClips(clips.map(c => c.id === clip.id ? edited : c));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    containerRef.current?.releasePointerCapture(e.pointerId);
+
+    // A click on a fade handle (no drag) cycles its curve
+    if (!drag.hasMoved && (drag.mode === 'fade-in' || drag.mode === 'fade-out')) {
+      const { clip } = drag;
+      const edited = drag.mode === 'fade-in'
+        ? { ...clip, fadeInCurve: getNextFadeCurve(clip.fadeInCurve) }
+        : { ...clip, fadeOutCurve: getNextFadeCurve(clip.fadeOutCurve) };
+      onClipsChange(clips.map(c => c.id === clip.id ? edited : c));
+      return;
+    }
+    if (!drag.hasMoved && drag.mode === 'move') {
+      onSeek(getTimeAt(drag.startX));
+      return;
+    }
+
+    if (draftClips) {
+      onClipsChange(draftClips);
+      setDraftClips(null);
+    }
+  };
+
+  const handleSplit = () => {
+    const currentTime = getPlayhead();
+    const selected = clips.find(c => c.id === selectedId);
+    const target = selected && currentTime > selected.start && currentTime < selected.start + selected.duration
+      ? selected
+      : findClipAt(clips, currentTime);
+    if (!target) return;
+    onClipsChange(splitClip(clips, target.id, currentTime));
+  };
+
+  const handleDuplicate = () => {
+    if (!selectedId) return;
+    onClipsChange(duplicateClip(clips, selectedId));
+  };
+
+  const handleDelete = () => {
+    if (!selectedId) return;
+    onClipsChange(removeClip(clips, selectedId));
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="absolute inset-0 overflow-hidden group/clips">
+      <div
+        ref={containerRef}
+        className="absolute top-0 bottom-0"
+        style={getLaneStyle(view, timelineDuration)}
+        onPointerDown={handleBackgroundPointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {visibleClips.map(clip => {
+          const isSelected = clip.id === selectedId;
+          const fades = resolvedFades.get(clip.id)!;
+          const fadeInWidth = clip.duration > 0 ? (fades.fadeIn / clip.duration) * 100 : 0;
+          const fadeOutWidth = clip.duration > 0 ? (fades.fadeOut / clip.duration) * 100 : 0;
+          return (
+            <div
+              key={clip.id}
+              className={`absolute top-1 bottom-1 rounded border cursor-grab active:cursor-grabbing ${
+                isSelected
+                ? 'border-daw-accent bg-daw-accent/10'
+                : 'border-daw-border/80 bg-white/[0.02] hover:border-daw-accent/50'
+              }`}
+              style={{ left: `${toPercent(clip.start)}%`, width: `${toPercent(clip.duration)}%` }}
+              onPointerDown={(e) => handleClipPointerDown(e, clip, 'move')}
+            >
+              {/* Fade Shapes */}
+              {fadeInWidth > 0 && (
+                <svg
+                  className="absolute top-0 bottom-0 left-0 h-full pointer-events-none"
+                  style={{ width: `${fadeInWidth}%` }}
+                  viewBox="0 0 1 1"
+                  preserveAspectRatio="none"
+                >
+                  <path d={getFadePath(fades.fadeInCurve, 'in')} fill="rgba(0,0,0,0.45)" />
+                </svg>
+              )}
+              {fadeOutWidth > 0 && (
+                <svg
+                  className="absolute top-0 bottom-0 right-0 h-full pointer-events-none"
+                  style={{ width: `${fadeOutWidth}%` }}
+                  viewBox="0 0 1 1"
+                  preserveAspectRatio="none"
+                >
+                  <path d={getFadePath(fades.fadeOutCurve, 'out')} fill="rgba(0,0,0,0.45)" />
+                </svg>
+              )}
+
+              {/* Fade Handles: drag to set length, click to change curve */}
+              <div
+                className="absolute top-0 w-2.5 h-2.5 -translate-x-1/2 bg-daw-text/80 hover:bg-daw-accent border border-daw-bg rounded-sm cursor-pointer z-10"
+                style={{ left: `${fadeInWidth}%` }}
+                onPointerDown={(e) => handleClipPointerDown(e, clip, 'fade-in')}
+                title={`Fade in: ${fades.fadeIn.toFixed(2)}s, ${FADE_CURVE_LABELS[fades.fadeInCurve]} (drag to resize, click to change curve)`}
+              />
+              <div
+                className="absolute top-0 w-2.5 h-2.5 translate-x-1/2 bg-daw-text/80 hover:bg-daw-accent border border-daw-bg rounded-sm cursor-pointer z-10"
+                style={{ right: `${fadeOutWidth}%` }}
+                onPointerDown={(e) => handleClipPointerDown(e, clip, 'fade-out')}
+                title={`Fade out: ${fades.fadeOut.toFixed(2)}s, ${FADE_CURVE_LABELS[fades.fadeOutCurve]} (drag to resize, click to change curve)`}
+              />
+
+              {/* Trim Handles */}
+              <div
+                className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize bg-daw-accent/0 hover:bg-daw-accent/60 rounded-l"
+                onPointerDown={(e) => handleClipPointerDown(e, clip, 'trim-start')}
+                title="Drag to trim start"
+              />
+              <div
+                className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize bg-daw-accent/0 hover:bg-daw-accent/60 rounded-r"
+                onPointerDown={(e) => handleClipPointerDown(e, clip, 'trim-end')}
+                title="Drag to trim end"
+              />
+            </div>
+          );
+        })}
+
+        {/* Playhead */}
+        <Playhead getTime={getPlayhead} timelineDuration={timelineDuration} className="z-10" />
+      </div>
+
+      {/* Clip Tools */}
+      <div
+        className="absolute top-1 right-1 z-20 flex items-center gap-0.5 bg-daw-panel/90 border border-daw-border rounded p-0.5 opacity-0 group-hover/clips:opacity-100 transition-opacity"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <button onClick={handleSplit} className="p-1 text-daw-muted hover:text-white" title="Split at playhead">
+          <Scissors size={12} />
+        </button>
+        <button
+          onClick={handleDuplicate}
+          disabled={!selectedId}
+          className="p-1 text-daw-muted hover:text-white disabled:opacity-30"
+          title="Duplicate selected clip"
+        >
+          <Copy size={12} />
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!selectedId}
+          className="p-1 text-daw-muted hover:text-red-400 disabled:opacity-30"
+          title="Delete selected clip"
+        >
+          <Trash2 size={12} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React from 'react';
+import { Power } from 'lucide-react';
+import { CompressorSettings, GateSettings, TrackDynamics } from '../types';
+
+interface DynamicsEditorProps {
+  dynamics: TrackDynamics;
+  // False when the gate's worklet couldn't be loaded
+  isGateAvailable: boolean;
+  onChange: (dynamics: TrackDynamics) => void;
+}
+
+interface ParamSpec<K extends string> {
+  key: K;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  // Times are stored in seconds but edited in milliseconds
+  scale?: number;
+  unit: string;
+}
+
+const GATE_PARAMS: ParamSpec<Exclude<keyof GateSettings, 'enabled'>>[] = [
+  { key: 'threshold', label: 'Thresh', min: -100, max: 0, step: 1, unit: 'dB' },
+  { key: 'range', label: 'Range', min: -100, max: 0, step: 1, unit: 'dB' },
+  { key: 'attack', label: 'Attack', min: 0.1, max: 100, step: 0.1, scale: 1000, unit: 'ms' },
+  { key: 'hold', label: 'Hold', min: 0, max: 1000, step: 1, scale: 1000, unit: 'ms' },
+  { key: 'release', label: 'Release', min: 1, max: 2000, step: 1, scale: 1000, unit: 'ms' },
+];
+
+// Limits follow DynamicsCompressorNode's own parameter ranges
+const COMPRESSOR_PARAMS: ParamSpec<Exclude<keyof CompressorSettings, 'enabled'>>[] = [
+  { key: 'threshold', label: 'Thresh', min: -100, max: 0, step: 1, unit: 'dB' },
+  { key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, unit: ':1' },
+  { key: 'attack', label: 'Attack', min: 0, max: 1000, step: 1, scale: 1000, unit: 'ms' },
+  { key: 'release', label: 'Release', min: 0, max: 1000, step: 1, scale: 1000, unit: 'ms' },
+  { key: 'knee', label: 'Knee', min: 0, max: 40, step: 1, unit: 'dB' },
+  { key: 'makeup', label: 'Makeup', min: 0, max: 24, step: 0.5, unit: 'dB' },
+];
+
+const PowerButton: React.FC<{ enabled: boolean; onToggle: () => void; title: string; disabled?: boolean }> = ({ enabled, onToggle, title, disabled }) => (
+  <button
+    onClick={onToggle}
+    disabled={disabled}
+    className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold border disabled:cursor-not-allowed ${
+      enabled && !disabled
+      ? 'bg-green-500/20 border-green-500/50 text-green-400'
+      : 'bg-daw-panel border-daw-border text-daw-muted'
+    }`}
+    title={title}
+  >
+    <Power size={10} /> {disabled ? 'N/A' : enabled ? 'ON' : 'OFF'}
+  </button>
+);
+
+function renderParams<K extends string>(
+  params: ParamSpec<K>[],
+  values: Record<K, number>,
+  enabled: boolean,
+  onChange: (key: K, value: number) => void,
+) {
+  return (
+    <div className={`grid grid-cols-[3.5rem_1fr_3.5rem] gap-x-2 gap-y-1 items-center ${enabled ? '' : 'opacity-40'}`}>
+      {params.map(param => {
+        const scale = param.scale ?? 1;
+        const shown = values[param.key] * scale;
+        return (
+          <React.Fragment key={param.key}>
+            <label className="text-[9px] text-daw-muted uppercase">{param.label}</label>
+            <input
+              type="range"
+              min={param.min}
+              max={param.max}
+              step={param.step}
+              value={shown}
+              onChange={(e) => onChange(param.key, parseFloat(e.target.value) / scale)}
+              className="h-1 bg-daw-border rounded-lg appearance-none cursor-pointer accent-daw-accent"
+            />
+            <span className="text-[9px] font-mono text-daw-text text-right">
+              {Number(shown.toFixed(1))}{param.unit}
+            </span>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+}
+
+// Insert panel for a track's noise gate and compressor. Both run in the
+// order shown (gate first) and are bypassed when switched off. Without
+// worklet support the gate can't run, so it's shown as unavailable.
+export const DynamicsEditor: React.FC<DynamicsEditorProps> = ({ dynamics, isGateAvailable, onChange }) => {
+  const { gate, compressor } = dynamics;
+  const isGateActive = isGateAvailable && gate.enabled;
+
+  const updateGate = (changes: Partial<GateSettings>) => {
+    onChange({ ...dynamics, gate: { ...gate, ...changes } });
+  };
+
+  const updateCompressor = (changes: Partial<CompressorSettings>) => {
+    onChange({ ...dynamics, compressor: { ...compressor, ...changes } });
+  };
+
+  return (
+    <div className="flex border-t border-daw-border">
+      <div className="w-6 flex-shrink-0 bg-daw-bg/50 border-r border-daw-border" />
+
+      {/* Gate */}
+      <div className="flex-1 flex flex-col gap-2 p-3 border-r border-daw-border bg-daw-bg/30">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Noise Gate</span>
+          <PowerButton
+            enabled={gate.enabled}
+            disabled={!isGateAvailable}
+            onToggle={() => updateGate({ enabled: !gate.enabled })}
+            title={!isGateAvailable
+              ? 'Gate unavailable: this browser can\'t load AudioWorklets, so the gate is bypassed'
+              : gate.enabled ? 'Gate active (click to bypass)' : 'Gate bypassed (click to enable)'}
+          />
+        </div>
+        {renderParams(GATE_PARAMS, gate, isGateActive, (key, value) => updateGate({ [key]: value }))}
+      </div>
+
+      {/* Compressor */}
+      <div className="flex-1 flex flex-col gap-2 p-3 bg-daw-bg/30">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Compressor</span>
+          <PowerButton
+            enabled={compressor.enabled}
+            onToggle={() => updateCompressor({ enabled: !compressor.enabled })}
+            title={compressor.enabled ? 'Compressor active (click to bypass)' : 'Compressor bypassed (click to enable)'}
+          />
+        </div>
+        {renderParams(COMPRESSOR_PARAMS, compressor, compressor.enabled, (key, value) => updateCompressor({ [key]: value }))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Power } from 'lucide-react';
+import { EqBand, TrackEq } from '../types';
+import {
+  EQ_BAND_LABELS,
+  EQ_FREQ_MAX,
+  EQ_FREQ_MIN,
+  EQ_GAIN_RANGE,
+  getEqResponse,
+  hasGain,
+} from '../services/eq';
+
+interface EqEditorProps {
+  eq: TrackEq;
+  onChange: (eq: TrackEq) => void;
+}
+
+const BAND_COLORS = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#22d3ee', '#818cf8', '#e879f9'];
+const RESPONSE_POINTS = 240;
+const GRID_FREQUENCIES = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+const GRID_GAINS = [-12, -6, 0, 6, 12];
+
+const LOG_RANGE = Math.log10(EQ_FREQ_MAX / EQ_FREQ_MIN);
+const freqToX = (freq: number) => Math.log10(freq / EQ_FREQ_MIN) / LOG_RANGE;
+const xToFreq = (x: number) => EQ_FREQ_MIN * Math.pow(10, x * LOG_RANGE);
+const gainToY = (gain: number) => 0.5 - gain / (2 * EQ_GAIN_RANGE);
+const yToGain = (y: number) => (0.5 - y) * 2 * EQ_GAIN_RANGE;
+
+const formatFreq = (freq: number) => freq >= 1000 ? `${(freq / 1000).toFixed(freq >= 10000 ? 0 : 1)}k` : `${Math.round(freq)}`;
+
+// Log-spaced frequencies shared by every editor instance
+const RESPONSE_FREQUENCIES = (() => {
+  const freqs = new Float32Array(RESPONSE_POINTS);
+  for (let i = 0; i < RESPONSE_POINTS; i++) {
+    freqs[i] = xToFreq(i / (RESPONSE_POINTS - 1));
+  }
+  return freqs;
+})();
+
+// Frequency-response editor for a track's EQ insert. Drag a band handle to
+// set frequency and gain, scroll over it to change Q, and use the panel on
+// the left for exact values.
+export const EqEditor: React.FC<EqEditorProps> = ({ eq, onChange }) => {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(3);
+
+  const response: Float32Array = useMemo(() => getEqResponse(eq, RESPONSE_FREQUENCIES), [eq]);
+  const selectedBand = eq.bands[selectedIndex];
+
+  const updateBand = (index: number, changes: Partial<EqBand>) => {
+    onChange({ ...eq, bands: eq.bands.map((band, i) => i === index ? { ...band, ...changes } : band) });
+  };
+
+  const handleHandlePointerDown = (e: React.PointerEvent, index: number) => {
+    e.stopPropagation();
+    setSelectedIndex(index);
+    dragIndexRef.current = index;
+    areaRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const index = dragIndexRef.current;
+    if (index === null || !areaRef.current) return;
+    const rect = areaRef.current.getBoundingClientRect();
+    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const y = Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height));
+    const band = eq.bands[index];
+    updateBand(index, {
+      frequency: Math.round(xToFreq(x)),
+      gain: hasGain(band.type) ? Math.round(yToGain(y) * 10) / 10 : band.gain,
+      enabled: true,
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragIndexRef.current === null) return;
+    dragIndexRef.current = null;
+    areaRef.current?.releasePointerCapture(e.pointerId);
+  };
+
+  const handleWheel = (e: React.WheelEvent, index: number) => {
+    const band = eq.bands[index];
+    const q = Math.max(0.1, Math.min(18, band.q * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+    updateBand(index, { q: Math.round(q * 100) / 100 });
+  };
+
+  const handleNumberChange = (field: 'frequency' | 'gain' | 'q', value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    const limits = {
+      frequency: [EQ_FREQ_MIN, EQ_FREQ_MAX],
+      gain: [-EQ_GAIN_RANGE, EQ_GAIN_RANGE],
+      q: [0.1, 18],
+    }[field];
+    updateBand(selectedIndex, { [field]: Math.max(limits[0], Math.min(limits[1], parsed)) });
+  };
+
+  const responsePath = Array.from(response)
+    .map((gain, i) => `${i === 0 ? 'M' : 'L'}${i / (RESPONSE_POINTS - 1)},${gainToY(gain)}`)
+    .join(' ');
+
+  const inputClass = "w-full bg-daw-panel border border-daw-border rounded text-[10px] font-mono text-daw-text px-1 py-0.5 outline-none focus:border-daw-accent/50";
+
+  return (
+    <div className="flex h-40 border-t border-daw-border">
+      <div className="w-6 flex-shrink-0 bg-daw-bg/50 border-r border-daw-border" />
+
+      {/* Band Controls */}
+      <div className="w-60 flex-shrink-0 flex flex-col gap-2 p-3 border-r border-daw-border bg-daw-bg/30">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">EQ</span>
+          <button
+            onClick={() => onChange({ ...eq, bypass: !eq.bypass })}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold border ${
+              eq.bypass
+              ? 'bg-daw-panel border-daw-border text-daw-muted'
+              : 'bg-green-500/20 border-green-500/50 text-green-400'
+            }`}
+            title={eq.bypass ? 'EQ bypassed (click to enable)' : 'EQ active (click to bypass)'}
+          >
+            <Power size={10} /> {eq.bypass ? 'BYPASS' : 'ON'}
+          </button>
+        </div>
+
+        {/* Band Selector */}
+        <div className="flex gap-0.5">
+          {eq.bands.map((band, i) => (
+            <button
+              key={i}
+              onClick={() => setSelectedIndex(i)}
+              className={`flex-1 py-0.5 rounded text-[9px] font-bold border ${
+                i === selectedIndex ? 'border-daw-accent' : 'border-daw-border'
+              } ${band.enabled ? '' : 'opacity-40'}`}
+              style={{ color: BAND_COLORS[i] }}
+              title={`${EQ_BAND_LABELS[band.type]} ${formatFreq(band.frequency)}Hz${band.enabled ? '' : ' (off)'}`}
+            >
+              {EQ_BAND_LABELS[band.type]}
+            </button>
+          ))}
+        </div>
+
+        {/* Selected Band */}
+        {selectedBand && (
+          <div className="grid grid-cols-3 gap-1 items-center">
+            <label className="text-[9px] text-daw-muted uppercase">Freq</label>
+            <label className="text-[9px] text-daw-muted uppercase">Gain</label>
+            <label className="text-[9px] text-daw-muted uppercase">Q</label>
+            <input
+              type="number"
+              value={selectedBand.frequency}
+              onChange={(e) => handleNumberChange('frequency', e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              step="0.5"
+              value={selectedBand.gain}
+              disabled={!hasGain(selectedBand.type)}
+              onChange={(e) => handleNumberChange('gain', e.target.value)}
+              className={`${inputClass} disabled:opacity-30`}
+            />
+            <input
+              type="number"
+              step="0.1"
+              value={selectedBand.q}
+              onChange={(e) => handleNumberChange('q', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        )}
+        {selectedBand && (
+          <button
+            onClick={() => updateBand(selectedIndex, { enabled: !selectedBand.enabled })}
+            className="text-[10px] text-daw-muted hover:text-white text-left"
+          >
+            Band {selectedBand.enabled ? 'on' : 'off'} — click to toggle
+          </button>
+        )}
+      </div>
+
+      {/* Response Curve */}
+      <div
+        ref={areaRef}
+        className={`flex-1 relative bg-daw-bg overflow-hidden ${eq.bypass ? 'opacity-50' : ''}`}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+          {GRID_FREQUENCIES.map(freq => (
+            <line key={freq} x1={freqToX(freq)} x2={freqToX(freq)} y1={0} y2={1} stroke="#2a2a35" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          ))}
+          {GRID_GAINS.map(gain => (
+            <line key={gain} x1={0} x2={1} y1={gainToY(gain)} y2={gainToY(gain)} stroke={gain === 0 ? '#3a3a48' : '#2a2a35'} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          ))}
+          <path d={responsePath} fill="none" stroke="#646cff" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        </svg>
+
+        {/* Grid Labels */}
+        {GRID_FREQUENCIES.map(freq => (
+          <span
+            key={freq}
+            className="absolute bottom-0.5 -translate-x-1/2 text-[8px] font-mono text-daw-muted/60 pointer-events-none"
+            style={{ left: `${freqToX(freq) * 100}%` }}
+          >
+            {formatFreq(freq)}
+          </span>
+        ))}
+
+        {/* Band Handles */}
+        {eq.bands.map((band, i) => (
+          <div
+            key={i}
+            className={`absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 cursor-move z-10 ${
+              band.enabled ? '' : 'opacity-30'
+            } ${i === selectedIndex ? 'border-white' : 'border-daw-bg'}`}
+            style={{
+              left: `${freqToX(band.frequency) * 100}%`,
+              top: `${gainToY(hasGain(band.type) ? band.gain : 0) * 100}%`,
+              backgroundColor: BAND_COLORS[i],
+            }}
+            onPointerDown={(e) => handleHandlePointerDown(e, i)}
+            onWheel={(e) => handleWheel(e, i)}
+            title={`${EQ_BAND_LABELS[band.type]} ${formatFreq(band.frequency)}Hz${hasGain(band.type) ? ` ${band.gain > 0 ? '+' : ''}${band.gain}dB` : ''} Q${band.q} (scroll to change Q)`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useEffect, useRef } from 'react';
+import { GainReduction } from '../services/dynamics';
+
+interface GainReductionMeterProps {
+  getReduction: (() => GainReduction) | null;
+}
+
+// Bars are full at this much reduction
+const METER_RANGE_DB = 24;
+// Fall-back per frame so short reductions stay readable
+const RELEASE_DB_PER_FRAME = 0.5;
+
+// Two small bars next to the fader that grow downward with gate and
+// compressor gain reduction. Styles are written directly from a rAF loop so
+// the meter doesn't re-render the whole TrackRow every frame.
+export const GainReductionMeter: React.FC<GainReductionMeterProps> = ({ getReduction }) => {
+  const gateRef = useRef<HTMLDivElement>(null);
+  const compRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<number>();
+
+  useEffect(() => {
+    const shown = { gate: 0, compressor: 0 };
+
+    const render = () => {
+      const reduction = getReduction ? getReduction() : { gate: 0, compressor: 0 };
+      (['gate', 'compressor'] as const).forEach(key => {
+        const depth = Math.min(METER_RANGE_DB, Math.max(0, -reduction[key]));
+        shown[key] = Math.max(depth, shown[key] - RELEASE_DB_PER_FRAME);
+      });
+
+      if (gateRef.current) {
+        gateRef.current.style.height = `${(shown.gate / METER_RANGE_DB) * 100}%`;
+        gateRef.current.parentElement!.title = `Gate: -${shown.gate.toFixed(1)} dB`;
+      }
+      if (compRef.current) {
+        compRef.current.style.height = `${(shown.compressor / METER_RANGE_DB) * 100}%`;
+        compRef.current.parentElement!.title = `Compressor: -${shown.compressor.toFixed(1)} dB`;
+      }
+      requestRef.current = requestAnimationFrame(render);
+    };
+
+    requestRef.current = requestAnimationFrame(render);
+    return () => {
+      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+    };
+  }, [getReduction]);
+
+  return (
+    <div className="flex gap-px h-4 flex-shrink-0">
+      <div className="w-1 h-full bg-daw-bg rounded-sm overflow-hidden">
+        <div ref={gateRef} className="w-full bg-cyan-400" style={{ height: 0 }} />
+      </div>
+      <div className="w-1 h-full bg-daw-bg rounded-sm overflow-hidden">
+        <div ref={compRef} className="w-full bg-orange-400" style={{ height: 0 }} />
+      </div>
+    </div>
+  );
+};
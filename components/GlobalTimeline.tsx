@@ -1,21 +1,55 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { AudioTrack } from '../types';
+import { AudioTrack, Marker, TimeRange } from '../types';
+import { computeClipPeaks, getTrackClips } from '../services/clips';
+import { isRegion, moveMarkerEdge } from '../services/markers';
 
 interface GlobalTimelineProps {
   tracks: AudioTrack[];
   duration: number;
   currentTime: number;
   onSeek: (time: number) => void;
+  range: TimeRange | null; // Export in/out points
+  onRangeChange: (range: TimeRange | null) => void;
+  loop: TimeRange | null;
+  isLooping: boolean;
+  onLoopChange: (loop: TimeRange | null) => void;
+  markers: Marker[];
+  onMarkersChange: (markers: Marker[]) => void;
+  snap?: (time: number) => number; // Grid for range, loop and marker drags, when snapping is on
 }
 
+// Shortest range a drag can create, so a plain shift-click doesn't leave a sliver
+const MIN_RANGE = 0.05;
+
+type DragMode = 'seek' | 'create' | 'in' | 'out' | 'marker' | 'loop' | 'loop-start' | 'loop-end' | 'loop-move';
+
+interface DragState {
+  mode: DragMode;
+  anchor: number;
+  marker?: { id: string; edge: 'start' | 'end' };
+  moved?: boolean; // A marker that was only clicked jumps there instead
+  origin?: TimeRange; // Loop being moved as a whole
+}
+
+const getCreateMode = (e: React.PointerEvent): DragMode => e.shiftKey ? 'create' : e.altKey ? 'loop' : 'seek';
+
 export const GlobalTimeline: React.FC<GlobalTimelineProps> = ({
   tracks,
   duration,
   currentTime,
-  onSeek
+  onSeek,
+  range,
+  onRangeChange,
+  loop,
+  isLooping,
+  onLoopChange,
+  markers,
+  onMarkersChange,
+  snap = (time) => time,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
   const [mergedPeaks, setMergedPeaks] = useState<Float32Array | null>(null);
 
   // 1. Generate "Sum" Peaks when tracks change
@@ -33,35 +67,18 @@ export const GlobalTimeline: React.FC<GlobalTimelineProps> = ({
       // We can't sum full audio buffers in real-time easily without blocking UI.
       // Approximation: Iterate roughly over the buffers and take max amplitude for each pixel bucket.
       
-      // Find the track with max duration to normalize time
-      const maxDur = Math.max(...tracks.map(t => t.duration || 0));
-      if (maxDur === 0) return;
+      if (duration <= 0) return;
 
       tracks.forEach(track => {
         if (!track.audioBuffer || track.isMuted) return;
         
-        const data = track.audioBuffer.getChannelData(0); // Use Left channel for visual
-        const step = Math.ceil(data.length / width);
-        const trackDurationRatio = track.duration / maxDur;
-        
-        // If track is shorter than max, it only occupies a portion
-        const activePixels = Math.floor(width * trackDurationRatio);
-
-        for (let i = 0; i < activePixels; i++) {
-          const start = i * step;
-          // Simple subsampling: take a peak in this window
-          let max = 0;
-          // Optimization: Check only 10 samples per step to speed up loop
-          for (let j = 0; j < 10; j++) {
-             const idx = start + Math.floor((j/10)*step);
-             if (idx < data.length) {
-                 const val = Math.abs(data[idx]);
-                 if (val > max) max = val;
-             }
-          }
-          // Add to global peaks (simple summation for visual overlap)
+        // Peaks follow the clip layout, so trimmed/moved regions show where they play
+        const trackPeaks = computeClipPeaks(track.audioBuffer, getTrackClips(track), duration, width);
+
+        for (let i = 0; i < width; i++) {
+          // Combine with global peaks (max for visual overlap)
           // We limit to 1.0 later
-          peaks[i] = Math.max(peaks[i], max * track.volume); 
+          peaks[i] = Math.max(peaks[i], trackPeaks[i] * track.volume); 
         }
       });
       
@@ -102,32 +119,105 @@ export const GlobalTimeline: React.FC<GlobalTimelineProps> = ({
     }
   }, [mergedPeaks]);
 
-  // Handle Click / Drag
-  const handlePointerDown = (e: React.PointerEvent) => {
-    handleSeekFromEvent(e);
+  // Handle Click / Drag: seek, Shift+drag for a new range, Alt+drag for a new loop,
+  // or drag a range edge, the loop or a marker
+  const handlePointerDown = (
+    e: React.PointerEvent,
+    mode: DragMode = getCreateMode(e),
+    marker?: DragState['marker'],
+  ) => {
+    e.stopPropagation();
+    const time = getTimeFromEvent(e);
+    if (time === null) return;
+    dragRef.current = { mode, anchor: time, marker, origin: loop ?? undefined };
     e.currentTarget.setPointerCapture(e.pointerId);
+    if (mode !== 'marker' && mode !== 'loop-move') handleDrag(time);
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
-    if (e.buttons === 1) { // Left click held
-        handleSeekFromEvent(e);
+    if (e.buttons !== 1 || !dragRef.current) return; // Left click held
+    const time = getTimeFromEvent(e);
+    if (time !== null) handleDrag(time);
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode === 'create' && range && range.end - range.start < MIN_RANGE) {
+      onRangeChange(null);
+    }
+    if (drag?.mode === 'loop' && loop && loop.end - loop.start < MIN_RANGE) {
+      onLoopChange(null);
+    }
+    if (drag?.mode === 'marker' && !drag.moved) {
+      const marker = markers.find(m => m.id === drag.marker?.id);
+      if (marker) onSeek(drag.marker?.edge === 'end' && marker.end !== null ? marker.end : marker.start);
+    }
+  };
+
+  const handleDrag = (rawTime: number) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    // Seeking stays free; every edit lands on the grid
+    const time = Math.min(duration, snap(rawTime));
+    const anchor = snap(drag.anchor);
+    switch (drag.mode) {
+      case 'seek':
+        onSeek(rawTime);
+        break;
+      case 'create':
+        onRangeChange({ start: Math.min(anchor, time), end: Math.max(anchor, time) });
+        break;
+      case 'in':
+        if (range) onRangeChange({ ...range, start: Math.min(time, range.end - MIN_RANGE) });
+        break;
+      case 'out':
+        if (range) onRangeChange({ ...range, end: Math.max(time, range.start + MIN_RANGE) });
+        break;
+      case 'loop':
+        onLoopChange({ start: Math.min(anchor, time), end: Math.max(anchor, time) });
+        break;
+      case 'loop-start':
+        if (loop) onLoopChange({ ...loop, start: Math.min(time, loop.end - MIN_RANGE) });
+        break;
+      case 'loop-end':
+        if (loop) onLoopChange({ ...loop, end: Math.max(time, loop.start + MIN_RANGE) });
+        break;
+      case 'loop-move': {
+        const origin = drag.origin;
+        if (!origin) return;
+        const length = origin.end - origin.start;
+        const start = Math.max(0, Math.min(snap(origin.start + rawTime - drag.anchor), duration - length));
+        onLoopChange({ start, end: start + length });
+        break;
+      }
+      case 'marker': {
+        const target = drag.marker;
+        if (!target || (!drag.moved && rawTime === drag.anchor)) return;
+        drag.moved = true;
+        onMarkersChange(markers.map(m => m.id === target.id ? moveMarkerEdge(m, target.edge, time) : m));
+        break;
+      }
     }
   };
 
-  const handleSeekFromEvent = (e: React.PointerEvent) => {
-     if (!containerRef.current || duration === 0) return;
+  const getTimeFromEvent = (e: React.PointerEvent): number | null => {
+     if (!containerRef.current || duration === 0) return null;
      const rect = containerRef.current.getBoundingClientRect();
      const x = Math.max(0, Math.min(e.clientX - rect.left, rect.width));
      const percent = x / rect.width;
-     onSeek(percent * duration);
+     return percent * duration;
   };
 
+  const toPercent = (time: number) => Math.min(100, (time / duration) * 100);
+
   return (
     <div 
         ref={containerRef}
         className="h-16 bg-daw-bg border-t border-daw-border relative cursor-crosshair group overflow-hidden"
-        onPointerDown={handlePointerDown}
+        onPointerDown={(e) => handlePointerDown(e)}
         onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
     >
         {/* Canvas for Waveform */}
         <canvas 
@@ -137,6 +227,86 @@ export const GlobalTimeline: React.FC<GlobalTimelineProps> = ({
             className="w-full h-full opacity-60 group-hover:opacity-100 transition-opacity"
         />
 
+        {/* Export Range */}
+        {range && duration > 0 && (
+            <div
+                className="absolute top-0 bottom-0 bg-amber-400/10 border-x border-amber-400/70 pointer-events-none"
+                style={{ left: `${toPercent(range.start)}%`, width: `${toPercent(range.end) - toPercent(range.start)}%` }}
+            >
+                <div
+                    className="absolute -left-1.5 top-0 bottom-0 w-3 cursor-ew-resize pointer-events-auto"
+                    onPointerDown={(e) => handlePointerDown(e, 'in')}
+                    title="Drag to move the in point"
+                >
+                    <div className="absolute left-1.5 top-0 bg-amber-400 text-[8px] font-bold text-black px-0.5 rounded-br">IN</div>
+                </div>
+                <div
+                    className="absolute -right-1.5 top-0 bottom-0 w-3 cursor-ew-resize pointer-events-auto"
+                    onPointerDown={(e) => handlePointerDown(e, 'out')}
+                    title="Drag to move the out point"
+                >
+                    <div className="absolute right-1.5 top-0 bg-amber-400 text-[8px] font-bold text-black px-0.5 rounded-bl">OUT</div>
+                </div>
+            </div>
+        )}
+
+        {/* Loop */}
+        {loop && duration > 0 && (
+            <div
+                className={`absolute top-0 bottom-0 pointer-events-none ${isLooping ? 'bg-sky-400/10' : ''}`}
+                style={{ left: `${toPercent(loop.start)}%`, width: `${toPercent(loop.end) - toPercent(loop.start)}%` }}
+            >
+                <div
+                    className={`absolute top-0 left-0 right-0 h-2 cursor-grab pointer-events-auto ${isLooping ? 'bg-sky-400/80' : 'bg-sky-400/30'}`}
+                    onPointerDown={(e) => handlePointerDown(e, 'loop-move')}
+                    title="Loop (drag to move, L to toggle)"
+                />
+                <div
+                    className="absolute -left-1 top-0 h-2 w-2 cursor-ew-resize pointer-events-auto"
+                    onPointerDown={(e) => handlePointerDown(e, 'loop-start')}
+                />
+                <div
+                    className="absolute -right-1 top-0 h-2 w-2 cursor-ew-resize pointer-events-auto"
+                    onPointerDown={(e) => handlePointerDown(e, 'loop-end')}
+                />
+            </div>
+        )}
+
+        {/* Markers and Regions */}
+        {duration > 0 && markers.map(marker => isRegion(marker) ? (
+            <div
+                key={marker.id}
+                className="absolute bottom-0 h-3.5 bg-teal-400/25 border-x border-teal-400/80 cursor-pointer"
+                style={{ left: `${toPercent(marker.start)}%`, width: `${toPercent(marker.end) - toPercent(marker.start)}%` }}
+                onPointerDown={(e) => { e.stopPropagation(); onSeek(marker.start); }}
+                title={`${marker.name} (click to jump)`}
+            >
+                <span className="block px-1 text-[8px] leading-[14px] font-bold text-teal-200 truncate pointer-events-none">{marker.name}</span>
+                <div
+                    className="absolute -left-1 top-0 bottom-0 w-2 cursor-ew-resize"
+                    onPointerDown={(e) => handlePointerDown(e, 'marker', { id: marker.id, edge: 'start' })}
+                />
+                <div
+                    className="absolute -right-1 top-0 bottom-0 w-2 cursor-ew-resize"
+                    onPointerDown={(e) => handlePointerDown(e, 'marker', { id: marker.id, edge: 'end' })}
+                />
+            </div>
+        ) : (
+            <div
+                key={marker.id}
+                className="absolute top-0 bottom-0 w-px bg-emerald-400/80 pointer-events-none"
+                style={{ left: `${toPercent(marker.start)}%` }}
+            >
+                <div
+                    className="absolute bottom-0 left-0 max-w-[96px] truncate bg-emerald-400 text-[8px] font-bold text-black px-0.5 rounded-tr cursor-ew-resize pointer-events-auto"
+                    onPointerDown={(e) => handlePointerDown(e, 'marker', { id: marker.id, edge: 'start' })}
+                    title={`${marker.name} (click to jump, drag to move)`}
+                >
+                    {marker.name}
+                </div>
+            </div>
+        ))}
+
         {/* Playhead */}
         {duration > 0 && (
             <div 
@@ -46,7 +46,7 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                         Drag and drop your audio files (WAV, MP3, etc.) anywhere on the screen, or click the "Browse" button.
                         <br/>
                         <span className="text-yellow-500/80 text-xs font-mono mt-1 block">
-                            NOTE: All tracks align to the start (0:00). If a track has silence at the beginning, make sure it's included in the file.
+                            NOTE: Every file is imported as one clip starting at 0:00. Drag the clip on the waveform to move it.
                         </span>
                     </p>
                 </div>
@@ -62,8 +62,21 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                     <ul className="text-sm text-daw-muted space-y-2 list-disc pl-4">
                         <li>Use the <strong>Volume Slider</strong> for coarse adjustments.</li>
                         <li><strong className="text-daw-text">Double-click the dB value</strong> to type a precise number (e.g., "-3.5").</li>
+                        <li>Use the small <strong>Pan Slider</strong> to place a track in the stereo field (double-click to center). Click the pan readout to switch between <em>equal-power</em> (-3 dB in the center, constant power while panning) and <em>linear</em> pan law (0 dB in the center, the far side fades out). Panning never makes a track louder.</li>
                         <li>Use <strong>M (Mute)</strong> to silence a track or <strong>S (Solo)</strong> to hear only that track.</li>
+                        <li>Edit clips on the waveform: drag a clip to <strong>move</strong> it, drag its edges to <strong>trim</strong>, and use the hover toolbar to <strong>split</strong> at the playhead, <strong>duplicate</strong> or delete. Edits never touch your original files.</li>
+                        <li>Drag the small squares at the top corners of a clip to add a <strong>fade-in/out</strong>; click a square to cycle its curve (linear, exponential, S-curve, equal power). Overlapping clips crossfade automatically.</li>
+                        <li>Click the <strong>automation</strong> icon on a track to open its lane. Click to add volume or pan breakpoints, drag to move them, double-click to delete. In <em>Read</em> mode the track follows the envelope; in <em>Write</em> mode your fader and pan moves are recorded while playing.</li>
+                        <li>Click <strong>EQ</strong> on a track to open its equalizer: drag the colored handles to set frequency and gain, scroll over a handle to change its width (Q), and use <em>Bypass</em> to compare. The EQ is applied to the bounce as well.</li>
+                        <li>Click <strong>DYN</strong> to open the <strong>Noise Gate</strong> and <strong>Compressor</strong> inserts (gate runs first). The two small bars next to the dB field show their gain reduction (cyan = gate, orange = compressor). Both are rendered into the bounce.</li>
+                        <li>Made a mistake? <strong className="text-daw-text">Ctrl+Z</strong> (⌘Z on Mac) undoes any mix edit and <strong className="text-daw-text">Ctrl+Shift+Z</strong> redoes it. A whole slider drag counts as one step. The <strong>History</strong> button next to Save lists every step; click one to jump back to it.</li>
+                        <li>All waveforms share one <strong>time scale</strong>. Zoom with <strong>Ctrl + wheel</strong> (⌘ + wheel on Mac) or the buttons next to the ruler, and scroll sideways with <strong>Shift + wheel</strong> or the bar at the top of the ruler. Click the ruler or any waveform to move the playhead. The ruler shows minutes:seconds, sample positions or bars|beats.</li>
+                        <li>Set the project <strong>tempo</strong> and time signature in the tempo menu next to Markers; add tempo changes there to switch BPM from a given bar on. With the ruler on <em>Bars|Beats</em>, grid lines are drawn over the waveforms, and <em>Snap edits to beats</em> lands clip moves, trims, ranges, loops and markers on the nearest beat. The drum button next to the loop button plays a <strong>metronome</strong>; it is only rendered into the bounce when <em>Include metronome click</em> is ticked. Click the footer time to show bars|beats.</li>
+                        <li>To work on one section, hold <strong>Alt</strong> and drag across the Global Timeline to set a <strong>loop</strong>. Playback wraps from its end back to its start without a gap. Press <strong>L</strong> or the loop button next to Play to switch it on and off. Drag the blue bar to move the loop and its ends to resize it. The bounce menu can <em>Export loop region</em> to render exactly that range.</li>
                         <li>Adjust the <strong>Master Fader</strong> on the right to control the overall output volume.</li>
+                        <li>The <strong>master meter</strong> shows RMS over peak per channel, on a dBFS, K-12 or K-14 scale. Below it you'll find sample peak, true peak and RMS readouts plus momentary (M), short-term (S) and integrated (I) loudness in LUFS and the loudness range (LRA). Click the red clip lights or <em>TP max</em> to reset them, and <em>I</em>/<em>LRA</em> to restart the loudness measurement.</li>
+                        <li>The <strong>PHASE</strong> panel shows a goniometer and a correlation meter: +1 is mono, around 0 is wide, and anything below 0 will cancel when summed to mono. Use the <strong>Monitor</strong> buttons (ST, MONO, L, R) and <strong>DIM</strong> to check the mix; they only change what you hear, never the bounce.</li>
+                        <li>Switch on <strong>LIMIT</strong> below the master fader to catch peaks with a look-ahead brickwall limiter. Set its <em>ceiling</em> in dBTP (e.g. -1.0); the <em>GR</em> readout shows how much it is reducing. The limiter is applied to the bounce too, so a hot mix no longer distorts on export.</li>
                     </ul>
                 </div>
             </div>
@@ -106,18 +119,43 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                     <p className="text-sm text-daw-muted leading-relaxed mb-2">
                         Click the <strong>Bounce</strong> button to export your mix. You can choose:
                     </p>
-                    <div className="grid grid-cols-2 gap-2 text-xs">
+                    <div className="grid grid-cols-3 gap-2 text-xs">
                         <div className="bg-daw-bg p-2 rounded border border-daw-border">
                             <span className="font-bold text-blue-400">WAV (PCM)</span>
                             <p className="text-daw-muted mt-1">Lossless quality. Best for further editing.</p>
                         </div>
                         <div className="bg-daw-bg p-2 rounded border border-daw-border">
-                            <span className="font-bold text-green-400">MP3 (320kbps)</span>
-                            <p className="text-daw-muted mt-1">Compressed. Best for sharing via WhatsApp/Email.</p>
+                            <span className="font-bold text-purple-400">FLAC</span>
+                            <p className="text-daw-muted mt-1">Lossless but around 40% smaller. Best for archiving and distributors. Set the <em>FLAC level</em> (0-8) for size vs. speed.</p>
+                        </div>
+                        <div className="bg-daw-bg p-2 rounded border border-daw-border">
+                            <span className="font-bold text-green-400">MP3</span>
+                            <p className="text-daw-muted mt-1">Compressed. Best for sharing via WhatsApp/Email. Choose <em>CBR</em> (fixed bitrate) or <em>VBR</em> (V0-V9 quality). Stereo exports are joint stereo, mono exports are true mono files.</p>
                         </div>
                     </div>
+                    <p className="text-sm text-daw-muted leading-relaxed mt-2">
+                        At the top of the menu, pick the <strong>sample rate</strong> (44.1 to 96 kHz), <strong>bit depth</strong> (16-bit, 24-bit or 32-bit float, WAV only) and <strong>mono or stereo</strong>. For video, use 48 kHz / 24-bit. The size estimates follow your choice. <strong>Dither</strong> (on by default) replaces the distortion of reducing to 16 or 24 bits with a faint, even noise floor, which keeps quiet fades and reverb tails clean; <em>TPDF + shaping</em> moves most of that noise to high frequencies where it's hardest to hear. MP3 is encoded straight from the float mix, so it needs no dither.
+                    </p>
+                    <p className="text-sm text-daw-muted leading-relaxed mt-2">
+                        Open <strong>Metadata</strong> in the bounce menu to tag your exports with title, artist, album, year, genre, ISRC, comments and cover art. MP3 files get ID3v2.4 tags, WAV files RIFF INFO tags (and an optional Broadcast Wave chunk with originator and timeline position), FLAC files Vorbis comments. The file name follows a template such as <code>{'{title}_{date}_v{n}'}</code>, where <em>n</em> counts up with every export.
+                    </p>
+                    <p className="text-sm text-daw-muted leading-relaxed mt-2">
+                        Press <strong>M</strong> to drop a <strong>marker</strong> at the playhead, or <strong>Shift+M</strong> to turn the in/out range into a named <strong>region</strong>. Jump with the number keys <strong>1-9</strong> or step through them with <strong>[</strong> and <strong>]</strong>; drag a marker on the Global Timeline to move it. The <em>Markers</em> list in the header renames and deletes them. Exports carry them as cue points (WAV) and chapters (MP3), and the bounce menu can save a <em>.cue</em> sheet next to the file.
+                    </p>
+                    <p className="text-sm text-daw-muted leading-relaxed mt-2">
+                        To export only part of the song, press <strong>I</strong> and <strong>O</strong> to set the in and out points at the playhead, or hold <strong>Shift</strong> and drag across the Global Timeline. Drag the <em>IN</em>/<em>OUT</em> flags to adjust. In the bounce menu you can add a <em>pre-roll</em> and <em>post-roll</em> so fade-ins and effect tails aren't cut off, or <em>Clear</em> the range to export everything again.
+                    </p>
+                    <p className="text-sm text-daw-muted leading-relaxed mt-2">
+                        Use <strong>Normalize</strong> in the bounce menu to hit a loudness target (-14 LUFS streaming, -16 LUFS podcast, -23 LUFS broadcast). The mix is measured after rendering and turned up or down to the target, but never past the true-peak limit. The menu shows the measured values before and after the last export.
+                    </p>
+                    <p className="text-sm text-daw-muted leading-relaxed mt-2">
+                        Need the tracks separately? <strong>Bounce Stems</strong> at the bottom of the menu renders every audible track on its own (with its fader, pan and inserts) and downloads them as one ZIP. All stems start at the same point and have the same length, so they line up when imported elsewhere.
+                    </p>
+                    <p className="text-sm text-daw-muted leading-relaxed mt-2">
+                        To continue later, use <strong>Save</strong> in the header. It downloads one <code>.otbproj</code> bundle with all settings and the original audio files; <strong>Open</strong> it again (or send it to a colleague) to get the exact same session back. Independently of that, the session is saved in your browser every few seconds; after a refresh or crash you'll be offered to restore it.
+                    </p>
                     <p className="text-yellow-500/80 text-xs font-mono mt-2">
-                        IMPORTANT: The export duration is determined by the <strong>longest track</strong>. Even if shorter tracks end early, the final file will play until the very end.
+                        IMPORTANT: The export duration is determined by the <strong>last clip</strong> on any track. Even if other tracks end early, the final file will play until the very end.
                     </p>
                 </div>
             </div>
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History, Undo2, Redo2 } from 'lucide-react';
+import { HistoryState } from '../services/history';
+
+interface HistoryMenuProps {
+  history: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (position: number) => void; // Number of commands to leave applied
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD_KEY = isMac ? '⌘' : 'Ctrl+';
+
+// Undo/redo buttons plus a dropdown of every step, newest at the bottom.
+// Steps after the current position are greyed out until redone.
+export const HistoryMenu: React.FC<HistoryMenuProps> = ({ history, onUndo, onRedo, onJump }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const position = history.past.length;
+  const entries = [...history.past, ...history.future];
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // Keep the current step in view
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.querySelector('[data-current]')?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [isOpen, position]);
+
+  const buttonClass = "p-1 rounded-md text-daw-muted hover:text-white hover:bg-daw-bg/50 transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+  return (
+    <div className="relative flex items-center gap-0.5" ref={menuRef}>
+      <button
+        onClick={onUndo}
+        disabled={position === 0}
+        className={buttonClass}
+        title={position > 0 ? `Undo ${history.past[position - 1].label} (${MOD_KEY}Z)` : 'Nothing to undo'}
+      >
+        <Undo2 size={14} />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={history.future.length === 0}
+        className={buttonClass}
+        title={history.future.length > 0 ? `Redo ${history.future[0].label} (${MOD_KEY}Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 size={14} />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`${buttonClass} ${isOpen ? 'text-white bg-daw-bg/50' : ''}`}
+        title="Edit History"
+      >
+        <History size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-64 bg-daw-panel border border-daw-border rounded-lg shadow-xl z-50 overflow-hidden">
+          <div className="p-2 border-b border-daw-border bg-daw-bg/50">
+            <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">History</span>
+          </div>
+          <div ref={listRef} className="max-h-72 overflow-y-auto py-1 text-xs">
+            <button
+              onClick={() => onJump(0)}
+              data-current={position === 0 ? '' : undefined}
+              className={`w-full text-left px-3 py-1 hover:bg-daw-bg ${position === 0 ? 'text-daw-accent font-bold' : 'text-daw-muted'}`}
+            >
+              Initial state
+            </button>
+            {entries.map((command, index) => {
+              const step = index + 1;
+              const isCurrent = step === position;
+              const isUndone = step > position;
+              return (
+                <button
+                  key={`${command.time}-${index}`}
+                  onClick={() => onJump(step)}
+                  data-current={isCurrent ? '' : undefined}
+                  className={`w-full flex justify-between gap-2 text-left px-3 py-1 hover:bg-daw-bg ${
+                    isCurrent ? 'text-daw-accent font-bold' : isUndone ? 'text-daw-muted/50 italic' : 'text-daw-text'
+                  }`}
+                >
+                  <span className="truncate">{command.label}</span>
+                  <span className="font-mono text-[10px] text-daw-muted flex-shrink-0">
+                    {new Date(command.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
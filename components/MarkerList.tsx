@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Flag, Plus, Trash2, ArrowRightToLine } from 'lucide-react';
+import { Marker } from '../types';
+import { isRegion } from '../services/markers';
+
+interface MarkerListProps {
+  markers: Marker[]; // Sorted by start
+  canAddRegion: boolean; // Needs an in/out range
+  onChange: (markers: Marker[]) => void;
+  onSeek: (time: number) => void;
+  onAddMarker: () => void;
+  onAddRegion: () => void;
+}
+
+// m:ss.t
+const formatTime = (seconds: number) => {
+  const tenths = Math.round(seconds * 10);
+  const secs = ((tenths % 600) / 10).toFixed(1);
+  return `${Math.floor(tenths / 600)}:${secs.padStart(4, '0')}`;
+};
+
+// Header dropdown listing every marker and region: rename, jump, delete.
+// The first nine can also be reached with the number keys.
+export const MarkerList: React.FC<MarkerListProps> = ({ markers, canAddRegion, onChange, onSeek, onAddMarker, onAddRegion }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const rename = (id: string, name: string) => onChange(markers.map(m => m.id === id ? { ...m, name } : m));
+  const remove = (id: string) => onChange(markers.filter(m => m.id !== id));
+
+  const buttonClass = "flex items-center gap-1 px-2 py-1 rounded border border-daw-border bg-daw-bg hover:border-daw-accent/50 hover:text-daw-accent text-[10px] font-bold transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium border border-transparent hover:border-daw-border transition-colors ${
+          isOpen ? 'text-white bg-daw-bg/50' : 'text-daw-muted hover:text-white hover:bg-daw-bg/50'
+        }`}
+        title="Markers & Regions (M adds a marker at the playhead)"
+      >
+        <Flag size={14} />
+        <span className="hidden md:inline">Markers</span>
+        {markers.length > 0 && <span className="font-mono text-[10px] text-daw-accent">{markers.length}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-daw-panel border border-daw-border rounded-lg shadow-xl z-50 overflow-hidden">
+          <div className="p-2 border-b border-daw-border bg-daw-bg/50 flex items-center justify-between gap-2">
+            <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Markers & Regions</span>
+            <div className="flex gap-1">
+              <button onClick={onAddMarker} className={buttonClass} title="Add a marker at the playhead (M)">
+                <Plus size={10} /> Marker
+              </button>
+              <button
+                onClick={onAddRegion}
+                disabled={!canAddRegion}
+                className={buttonClass}
+                title={canAddRegion ? "Add a region from the in/out range (Shift+M)" : "Set an in/out range first (I / O)"}
+              >
+                <Plus size={10} /> Region
+              </button>
+            </div>
+          </div>
+          <div className="max-h-72 overflow-y-auto py-1 text-xs">
+            {markers.length === 0 && (
+              <p className="px-3 py-2 text-daw-muted leading-tight">
+                No markers yet. Press <strong>M</strong> to drop one at the playhead, or set an in/out range and press <strong>Shift+M</strong> for a region.
+              </p>
+            )}
+            {markers.map((marker, index) => (
+              <div key={marker.id} className="flex items-center gap-2 px-2 py-1 hover:bg-daw-bg group">
+                <span className={`w-4 text-center font-mono text-[10px] ${isRegion(marker) ? 'text-teal-300' : 'text-emerald-400'}`}>
+                  {index < 9 ? index + 1 : ''}
+                </span>
+                <input
+                  type="text"
+                  value={marker.name}
+                  onChange={(e) => rename(marker.id, e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                  className="flex-1 min-w-0 bg-transparent border border-transparent focus:border-daw-border rounded px-1 outline-none"
+                />
+                <span className="font-mono text-[10px] text-daw-muted whitespace-nowrap">
+                  {formatTime(marker.start)}{isRegion(marker) && `–${formatTime(marker.end)}`}
+                </span>
+                <button
+                  onClick={() => onSeek(marker.start)}
+                  className="p-0.5 text-daw-muted hover:text-daw-accent"
+                  title="Jump here"
+                >
+                  <ArrowRightToLine size={12} />
+                </button>
+                <button
+                  onClick={() => remove(marker.id)}
+                  className="p-0.5 text-daw-muted hover:text-red-400 opacity-0 group-hover:opacity-100"
+                  title="Delete"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
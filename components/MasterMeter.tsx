@@ -1,24 +1,59 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Info } from 'lucide-react';
+import { LimiterSettings } from '../types';
+import { LIMITER_CEILING_MIN } from '../services/limiter';
+import { MeterStage } from '../services/metering';
+
+type MeterScale = 'dbfs' | 'k12' | 'k14';
+
+// The bars always span METER_FLOOR_DB..0 dBFS. K-scales move the 0 mark down
+// to -12/-14 dBFS and label everything relative to it.
+const METER_FLOOR_DB = -60;
+const METER_FALL_DB_PER_SEC = 20;
+const PEAK_HOLD_MS = 1500;
+
+const METER_SCALES: Record<MeterScale, {
+  label: string;
+  offset: number; // dB added to dBFS to get the scale's reading
+  ticks: number[]; // In scale units
+  zones: { green: number; yellow: number }; // dBFS where yellow/red start
+}> = {
+  dbfs: { label: 'dBFS', offset: 0, ticks: [0, -6, -12, -18, -24, -36, -48], zones: { green: -18, yellow: -6 } },
+  k12: { label: 'K-12', offset: 12, ticks: [12, 4, 0, -4, -8, -12, -20, -30], zones: { green: -12, yellow: -8 } },
+  k14: { label: 'K-14', offset: 14, ticks: [14, 4, 0, -4, -8, -12, -20, -30], zones: { green: -14, yellow: -10 } },
+};
+
+const dbToFraction = (db: number) => Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+const formatDb = (db: number) => isFinite(db) ? db.toFixed(1) : '-inf';
 
 interface MasterMeterProps {
-  analyserL: AnalyserNode | null;
-  analyserR: AnalyserNode | null;
+  meter: MeterStage | null;
   masterVolume: number;
   onMasterVolumeChange: (vol: number) => void;
+  limiter: LimiterSettings;
+  onLimiterChange: (limiter: LimiterSettings) => void;
+  getLimiterReduction: (() => number) | null;
 }
 
 export const MasterMeter: React.FC<MasterMeterProps> = ({ 
-    analyserL, 
-    analyserR, 
+    meter,
     masterVolume, 
-    onMasterVolumeChange 
+    onMasterVolumeChange,
+    limiter,
+    onLimiterChange,
+    getLimiterReduction,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>();
+  const limiterGrRef = useRef<HTMLSpanElement>(null);
+
+  const lastFrameRef = useRef(0);
+  const readoutRefs = useRef<Record<string, HTMLSpanElement | null>>({});
+  const clipRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const [scale, setScale] = useState<MeterScale>('dbfs');
 
-  // Peak State
-  const peaksRef = useRef({ l: 0, r: 0 });
+  // Displayed bar levels (dB) with their own ballistics
+  const displayRef = useRef([0, 1].map(() => ({ peak: -Infinity, rms: -Infinity, hold: -Infinity, holdTime: 0 })));
 
   // Editable Volume State
   const [dbInput, setDbInput] = useState<string>("0.0");
@@ -56,109 +91,140 @@ export const MasterMeter: React.FC<MasterMeterProps> = ({
     onMasterVolumeChange(newVol);
   };
 
-  const draw = () => {
-    if (!analyserL || !analyserR || !canvasRef.current) return;
+  // Limiter ceiling input
+  const [ceilingInput, setCeilingInput] = useState<string>(limiter.ceiling.toFixed(1));
+
+  useEffect(() => {
+    setCeilingInput(limiter.ceiling.toFixed(1));
+  }, [limiter.ceiling]);
+
+  const commitCeilingChange = () => {
+    const parsed = parseFloat(ceilingInput);
+    if (isNaN(parsed)) {
+      setCeilingInput(limiter.ceiling.toFixed(1));
+      return;
+    }
+    onLimiterChange({ ...limiter, ceiling: Math.max(LIMITER_CEILING_MIN, Math.min(0, parsed)) });
+  };
+
+  const draw = (time: number) => {
+    if (!meter || !canvasRef.current) return;
+
+    if (limiterGrRef.current) {
+      const reduction = getLimiterReduction ? getLimiterReduction() : 0;
+      limiterGrRef.current.textContent = reduction < -0.05 ? reduction.toFixed(1) : '0.0';
+    }
 
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    const readings = meter.getReadings();
     const width = canvas.width;
     const height = canvas.height;
     const barWidth = (width - 4) / 2;
+    const dt = lastFrameRef.current ? (time - lastFrameRef.current) / 1000 : 0;
+    lastFrameRef.current = time;
 
-    // Clear
+    // Clear + Background
     ctx.clearRect(0, 0, width, height);
-
-    // Draw Background
     ctx.fillStyle = '#1e1e24';
     ctx.fillRect(0, 0, width, height);
 
-    // Draw Grid
+    // Grid at the scale's tick marks
     ctx.strokeStyle = '#2a2a35';
     ctx.lineWidth = 1;
-    const steps = 12;
-    for (let i = 0; i < steps; i++) {
-        const y = (height / steps) * i;
+    METER_SCALES[scale].ticks.forEach(tick => {
+        const y = Math.round((1 - dbToFraction(tick - METER_SCALES[scale].offset)) * height) + 0.5;
         ctx.beginPath();
         ctx.moveTo(0, y);
         ctx.lineTo(width, y);
         ctx.stroke();
-    }
+    });
 
-    // Process Left
-    const valL = getRMS(analyserL);
-    const valR = getRMS(analyserR);
-
-    // Draw Function
-    const drawChannel = (val: number, peakObj: {current: number}, xPos: number) => {
-        const renderVal = Math.min(val * 4, 1); 
-        
-        // Peak Logic
-        if (renderVal >= peakObj.current) {
-            peakObj.current = renderVal;
-        } else {
-            peakObj.current -= 0.005; // Decay rate
-        }
-        if (peakObj.current < 0) peakObj.current = 0;
+    // Color zones follow the scale (K-system: green below 0, yellow to +4, red above)
+    const gradient = ctx.createLinearGradient(0, height, 0, 0);
+    const { green, yellow } = METER_SCALES[scale].zones;
+    gradient.addColorStop(0, '#22c55e');
+    gradient.addColorStop(dbToFraction(green), '#22c55e');
+    gradient.addColorStop(dbToFraction(green), '#eab308');
+    gradient.addColorStop(dbToFraction(yellow), '#eab308');
+    gradient.addColorStop(dbToFraction(yellow), '#ef4444');
+    gradient.addColorStop(1, '#ef4444');
 
-        const barHeight = renderVal * height;
-        const peakY = height - (peakObj.current * height);
-        const barY = height - barHeight;
+    [0, 1].forEach(channel => {
+        const x = 1 + channel * (barWidth + 2);
+        const shown = displayRef.current[channel];
+        const peak = readings ? Math.max(readings.peak[channel], readings.truePeak[channel]) : -Infinity;
+        const rms = readings ? readings.rms[channel] : -Infinity;
 
-        // Gradient
-        const gradient = ctx.createLinearGradient(0, height, 0, 0);
-        gradient.addColorStop(0, '#22c55e'); // Green
-        gradient.addColorStop(0.6, '#eab308'); // Yellow
-        gradient.addColorStop(0.85, '#f97316'); // Orange
-        gradient.addColorStop(1, '#ef4444'); // Red
+        // Instant attack, fixed fall rate
+        shown.peak = Math.max(peak, shown.peak - METER_FALL_DB_PER_SEC * dt);
+        shown.rms = Math.max(rms, shown.rms - METER_FALL_DB_PER_SEC * dt);
+        if (peak >= shown.hold || time - shown.holdTime > PEAK_HOLD_MS) {
+            shown.hold = peak;
+            shown.holdTime = time;
+        }
 
-        // Main Bar
+        // Peak bar (dimmed) behind the RMS bar
+        const peakHeight = dbToFraction(shown.peak) * height;
+        ctx.globalAlpha = 0.35;
         ctx.fillStyle = gradient;
-        ctx.fillRect(xPos, barY, barWidth, barHeight);
+        ctx.fillRect(x, height - peakHeight, barWidth, peakHeight);
+        ctx.globalAlpha = 1;
 
-        // Peak Hold Bar
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(xPos, peakY - 1, barWidth, 2);
-    };
+        const rmsHeight = dbToFraction(shown.rms) * height;
+        ctx.fillRect(x, height - rmsHeight, barWidth, rmsHeight);
 
-    drawChannel(valL, { 
-        get current() { return peaksRef.current.l; }, 
-        set current(v) { peaksRef.current.l = v; } 
-    }, 1);
+        // Peak Hold Bar
+        if (isFinite(shown.hold) && shown.hold > METER_FLOOR_DB) {
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(x, (1 - dbToFraction(shown.hold)) * height - 1, barWidth, 2);
+        }
+    });
 
-    drawChannel(valR, { 
-        get current() { return peaksRef.current.r; }, 
-        set current(v) { peaksRef.current.r = v; } 
-    }, 1 + barWidth + 2); // 2px Gap
+    // Numeric readouts and clip lights, written straight to the DOM
+    const set = (key: string, value: string) => {
+        const el = readoutRefs.current[key];
+        if (el && el.textContent !== value) el.textContent = value;
+    };
+    set('peak', readings ? `${formatDb(readings.peak[0])} ${formatDb(readings.peak[1])}` : '-- --');
+    set('truePeak', readings ? `${formatDb(readings.truePeak[0])} ${formatDb(readings.truePeak[1])}` : '-- --');
+    set('rms', readings ? `${formatDb(readings.rms[0])} ${formatDb(readings.rms[1])}` : '-- --');
+    set('truePeakMax', readings ? formatDb(readings.truePeakMax) : '--');
+    set('momentary', readings ? formatDb(readings.momentary) : '--');
+    set('shortTerm', readings ? formatDb(readings.shortTerm) : '--');
+    set('integrated', readings ? formatDb(readings.integrated) : '--');
+    set('range', readings ? readings.range.toFixed(1) : '--');
+    [0, 1].forEach(channel => {
+        const light = clipRefs.current[channel];
+        if (light) light.dataset.clipped = String(!!readings?.clipped[channel]);
+    });
 
     requestRef.current = requestAnimationFrame(draw);
   };
 
-  const getRMS = (analyser: AnalyserNode) => {
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    analyser.getByteTimeDomainData(dataArray);
-
-    let sum = 0;
-    for (let i = 0; i < bufferLength; i++) {
-      const x = (dataArray[i] - 128) / 128;
-      sum += x * x;
-    }
-    return Math.sqrt(sum / bufferLength);
-  };
-
   useEffect(() => {
-    if (analyserL && analyserR) {
+    if (meter) {
+        lastFrameRef.current = 0;
         requestRef.current = requestAnimationFrame(draw);
     }
     return () => {
         if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
-  }, [analyserL, analyserR]);
+  }, [meter, scale, getLimiterReduction]);
+
+  const scaleLabels = METER_SCALES[scale].ticks.map(tick => ({
+    label: tick > 0 && scale !== 'dbfs' ? `+${tick}` : `${tick}`,
+    top: (1 - dbToFraction(tick - METER_SCALES[scale].offset)) * 100,
+  }));
+
+  const readout = (key: string) => (el: HTMLSpanElement | null) => {
+    readoutRefs.current[key] = el;
+  };
 
   return (
-    <div className="h-full flex flex-col bg-daw-bg border-l border-daw-border p-2 w-28 select-none">
+    <div className="h-full flex flex-col bg-daw-bg border-l border-daw-border p-2 w-36 select-none">
       
       {/* Title + Info */}
       <div className="flex items-center justify-between mb-2">
@@ -168,7 +234,8 @@ export const MasterMeter: React.FC<MasterMeterProps> = ({
              <div className="absolute right-0 top-6 w-48 bg-daw-panel border border-daw-border p-2 rounded shadow-xl text-[10px] text-daw-text z-50 hidden group-hover:block pointer-events-none">
                 <p className="mb-1 text-daw-accent font-bold">Final Mix Volume</p>
                 <p>This fader controls the volume of the exported file.</p>
-                <p className="mt-1 text-daw-muted">Recommended: Keep at 0dB to avoid digital clipping (distortion) in your final bounce.</p>
+                <p className="mt-1">Bars show RMS (solid) over peak (dim) with a peak-hold line. Click a red clip light or <em>TP max</em> to reset them; click <em>I</em> or <em>LRA</em> to restart the loudness measurement.</p>
+                <p className="mt-1 text-daw-muted">Recommended: Keep at 0dB to avoid digital clipping (distortion) in your final bounce, or switch on the limiter below to catch peaks above its ceiling.</p>
              </div>
          </div>
       </div>
@@ -177,21 +244,34 @@ export const MasterMeter: React.FC<MasterMeterProps> = ({
       <div className="flex-1 flex gap-2 mb-2">
          
          {/* Meters */}
-         <div className="flex-1 bg-daw-panel border border-daw-border rounded overflow-hidden relative">
-            <canvas 
-                ref={canvasRef} 
-                width={50} 
-                height={400} 
-                className="w-full h-full"
-            />
-            {/* dB Scale Overlay */}
-            <div className="absolute top-0 left-0 bottom-0 w-full pointer-events-none">
-                <div className="flex flex-col justify-between h-full py-1 px-0.5 text-[9px] text-daw-muted/50 font-mono text-center mix-blend-difference">
-                    <span>0</span>
-                    <span>-6</span>
-                    <span>-12</span>
-                    <span>-24</span>
-                    <span>-inf</span>
+         <div className="flex-1 flex flex-col gap-1">
+            {/* Clip-hold lights: click to reset */}
+            <div className="flex gap-0.5">
+                {[0, 1].map(channel => (
+                    <button
+                        key={channel}
+                        ref={(el) => { clipRefs.current[channel] = el; }}
+                        data-clipped="false"
+                        onClick={() => meter?.resetClips()}
+                        className="flex-1 h-2 rounded-sm bg-daw-panel border border-daw-border data-[clipped=true]:bg-red-500 data-[clipped=true]:border-red-400"
+                        title="Clip (click to reset)"
+                    />
+                ))}
+            </div>
+            <div className="flex-1 bg-daw-panel border border-daw-border rounded overflow-hidden relative">
+                <canvas 
+                    ref={canvasRef} 
+                    width={50} 
+                    height={400} 
+                    className="w-full h-full"
+                />
+                {/* Scale Overlay */}
+                <div className="absolute inset-0 pointer-events-none text-[9px] text-daw-muted/50 font-mono mix-blend-difference">
+                    {scaleLabels.map(({ label, top }) => (
+                        <span key={label} className="absolute inset-x-0 text-center -translate-y-1/2" style={{ top: `${Math.max(4, top)}%` }}>
+                            {label}
+                        </span>
+                    ))}
                 </div>
             </div>
          </div>
@@ -228,12 +308,42 @@ export const MasterMeter: React.FC<MasterMeterProps> = ({
          </div>
       </div>
 
-      {/* L/R Labels */}
-      <div className="flex justify-between px-2 text-[10px] text-daw-muted font-mono mb-2">
+      {/* L/R Labels + Scale */}
+      <div className="flex items-center justify-between px-1 text-[10px] text-daw-muted font-mono mb-2">
          <span>L</span>
+         <select
+            value={scale}
+            onChange={(e) => setScale(e.target.value as MeterScale)}
+            className="bg-daw-panel border border-daw-border rounded text-[9px] outline-none"
+            title="Meter scale"
+         >
+            {(Object.keys(METER_SCALES) as MeterScale[]).map(key => (
+                <option key={key} value={key}>{METER_SCALES[key].label}</option>
+            ))}
+         </select>
          <span>R</span>
       </div>
 
+      {/* Readouts */}
+      <div className="grid grid-cols-[auto_1fr] gap-x-2 text-[9px] font-mono mb-2">
+         <span className="text-daw-muted" title="Sample peak L/R (dBFS)">PK</span>
+         <span ref={readout('peak')} className="text-right text-daw-text">-- --</span>
+         <span className="text-daw-muted" title="True peak L/R (dBTP)">TP</span>
+         <span ref={readout('truePeak')} className="text-right text-daw-text">-- --</span>
+         <span className="text-daw-muted" title="RMS L/R (dBFS)">RMS</span>
+         <span ref={readout('rms')} className="text-right text-daw-text">-- --</span>
+         <button onClick={() => meter?.resetClips()} className="text-left text-daw-muted hover:text-white" title="Highest true peak (click to reset)">TP max</button>
+         <span ref={readout('truePeakMax')} className="text-right text-daw-text">--</span>
+         <span className="text-daw-muted" title="Momentary loudness, 400 ms (LUFS)">M</span>
+         <span ref={readout('momentary')} className="text-right text-daw-text">--</span>
+         <span className="text-daw-muted" title="Short-term loudness, 3 s (LUFS)">S</span>
+         <span ref={readout('shortTerm')} className="text-right text-daw-text">--</span>
+         <button onClick={() => meter?.resetLoudness()} className="text-left text-daw-muted hover:text-white" title="Integrated loudness (LUFS) — click to reset">I</button>
+         <span ref={readout('integrated')} className="text-right text-daw-accent font-bold">--</span>
+         <button onClick={() => meter?.resetLoudness()} className="text-left text-daw-muted hover:text-white" title="Loudness range (LU) — click to reset">LRA</button>
+         <span ref={readout('range')} className="text-right text-daw-text">--</span>
+      </div>
+
       {/* dB Input */}
       <div className="bg-daw-panel border border-daw-border rounded px-1 py-1 flex items-center justify-center gap-1 cursor-text hover:border-daw-accent/50 transition-colors">
          <input
@@ -247,6 +357,37 @@ export const MasterMeter: React.FC<MasterMeterProps> = ({
          />
          <span className="text-[10px] text-daw-muted">dB</span>
       </div>
+
+      {/* Limiter */}
+      <div className="mt-2 flex flex-col gap-1">
+         <button
+            onClick={() => onLimiterChange({ ...limiter, enabled: !limiter.enabled })}
+            className={`py-0.5 rounded text-[10px] font-bold border ${
+              limiter.enabled
+              ? 'bg-green-500/20 border-green-500/50 text-green-400'
+              : 'bg-daw-panel border-daw-border text-daw-muted hover:text-white'
+            }`}
+            title="Look-ahead brickwall limiter on the master bus (also applied to the bounce)"
+         >
+            LIMIT {limiter.enabled ? 'ON' : 'OFF'}
+         </button>
+         <div className={`bg-daw-panel border border-daw-border rounded px-1 py-0.5 flex items-center gap-1 ${limiter.enabled ? '' : 'opacity-50'}`}>
+            <input
+               type="text"
+               value={ceilingInput}
+               onBlur={commitCeilingChange}
+               onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+               onChange={(e) => setCeilingInput(e.target.value)}
+               className="w-full min-w-0 bg-transparent text-right text-[10px] font-mono text-daw-text outline-none p-0"
+               title="Ceiling (true peak)"
+            />
+            <span className="text-[9px] text-daw-muted">dBTP</span>
+         </div>
+         <div className="flex justify-between text-[9px] font-mono text-daw-muted" title="Limiter gain reduction">
+            <span>GR</span>
+            <span><span ref={limiterGrRef}>0.0</span> dB</span>
+         </div>
+      </div>
     </div>
   );
 };
\ No newline at end of file
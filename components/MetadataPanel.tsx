@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Tag, ImagePlus, Trash2 } from 'lucide-react';
+import { ExportMetadata } from '../types';
+import { FILE_NAME_TOKENS, formatFileName, readCoverImage } from '../services/metadata';
+
+interface MetadataPanelProps {
+  isOpen: boolean;
+  metadata: ExportMetadata;
+  version: number; // {n} of the next export
+  onChange: (metadata: ExportMetadata) => void;
+  onClose: () => void;
+}
+
+type TextField = 'title' | 'artist' | 'album' | 'year' | 'genre' | 'isrc';
+
+const TEXT_FIELDS: { key: TextField; label: string; placeholder?: string; span?: boolean }[] = [
+  { key: 'title', label: 'Title', span: true },
+  { key: 'artist', label: 'Artist' },
+  { key: 'album', label: 'Album' },
+  { key: 'year', label: 'Year', placeholder: '2024' },
+  { key: 'genre', label: 'Genre' },
+  { key: 'isrc', label: 'ISRC', placeholder: 'CC-XXX-YY-NNNNN', span: true },
+];
+
+const inputClass = "bg-daw-bg border border-daw-border rounded px-2 py-1 text-sm outline-none focus:border-daw-accent";
+const labelClass = "text-[10px] uppercase font-bold text-daw-muted tracking-wider";
+
+// Tags and file naming for exports. MP3 gets ID3v2.4 frames, WAV a LIST/INFO
+// chunk (plus bext when enabled) and FLAC Vorbis comments with the cover.
+export const MetadataPanel: React.FC<MetadataPanelProps> = ({ isOpen, metadata, version, onChange, onClose }) => {
+  const coverInputRef = useRef<HTMLInputElement>(null);
+  const [coverError, setCoverError] = useState<string | null>(null);
+
+  const coverUrl = useMemo<string | null>(
+    () => metadata.cover ? URL.createObjectURL(new Blob([metadata.cover.data], { type: metadata.cover.mimeType })) : null,
+    [metadata.cover],
+  );
+  useEffect(() => () => {
+    if (coverUrl) URL.revokeObjectURL(coverUrl);
+  }, [coverUrl]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<ExportMetadata>) => onChange({ ...metadata, ...changes });
+
+  const handleCoverSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ cover: await readCoverImage(file) });
+      setCoverError(null);
+    } catch (err) {
+      setCoverError(err instanceof Error ? err.message : "The image could not be read.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-daw-panel border border-daw-border rounded-xl shadow-2xl w-full max-w-xl max-h-[90vh] overflow-y-auto flex flex-col animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-daw-border bg-daw-bg/50 sticky top-0 backdrop-blur-md z-10">
+          <div className="flex items-center gap-2">
+            <Tag size={18} className="text-daw-accent" />
+            <h2 className="text-lg font-bold text-white">Export Metadata</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-daw-bg rounded-lg text-daw-muted hover:text-white transition-colors"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-4">
+          {/* Tags */}
+          <div className="flex gap-4">
+            <div className="flex flex-col items-center gap-1 flex-shrink-0">
+              <button
+                onClick={() => coverInputRef.current?.click()}
+                className="w-28 h-28 rounded-lg border border-dashed border-daw-border bg-daw-bg hover:border-daw-accent/50 flex items-center justify-center overflow-hidden text-daw-muted hover:text-daw-accent transition-colors"
+                title="JPEG or PNG, ideally square (e.g. 3000 × 3000)"
+              >
+                {coverUrl ? (
+                  <img src={coverUrl} alt="Cover art" className="w-full h-full object-cover" />
+                ) : (
+                  <div className="flex flex-col items-center gap-1 text-xs">
+                    <ImagePlus size={20} />
+                    Cover art
+                  </div>
+                )}
+              </button>
+              {metadata.cover && (
+                <button
+                  onClick={() => update({ cover: null })}
+                  className="flex items-center gap-1 text-[10px] text-daw-muted hover:text-red-400"
+                >
+                  <Trash2 size={10} /> {metadata.cover.width} × {metadata.cover.height}
+                </button>
+              )}
+              <input
+                type="file"
+                ref={coverInputRef}
+                onChange={handleCoverSelect}
+                className="hidden"
+                accept="image/jpeg,image/png"
+              />
+            </div>
+            <div className="flex-1 grid grid-cols-2 gap-2">
+              {TEXT_FIELDS.map(field => (
+                <label key={field.key} className={`flex flex-col gap-1 ${field.span ? 'col-span-2' : ''}`}>
+                  <span className={labelClass}>{field.label}</span>
+                  <input
+                    type="text"
+                    value={metadata[field.key]}
+                    placeholder={field.placeholder}
+                    onChange={(e) => update({ [field.key]: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          {coverError && <p className="text-xs text-red-400">{coverError}</p>}
+
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Comments</span>
+            <textarea
+              value={metadata.comment}
+              onChange={(e) => update({ comment: e.target.value })}
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+          </label>
+
+          {/* Broadcast Wave */}
+          <div className="flex flex-col gap-2 p-3 rounded-lg border border-daw-border bg-daw-bg/30">
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={metadata.writeBext}
+                onChange={(e) => update({ writeBext: e.target.checked })}
+                className="accent-daw-accent"
+              />
+              Broadcast Wave (bext) chunk in WAV files
+            </label>
+            <p className="text-[10px] text-daw-muted leading-tight">
+              Adds originator, date and a time reference (where the file starts on the timeline), so video and broadcast editors can place it at its position.
+            </p>
+            {metadata.writeBext && (
+              <label className="flex items-center gap-2">
+                <span className={labelClass}>Originator</span>
+                <input
+                  type="text"
+                  value={metadata.originator}
+                  maxLength={32}
+                  placeholder="Online Tracks Bouncer"
+                  onChange={(e) => update({ originator: e.target.value })}
+                  className={`${inputClass} flex-1`}
+                />
+              </label>
+            )}
+          </div>
+
+          {/* File Name */}
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>File name</span>
+            <input
+              type="text"
+              value={metadata.fileNameTemplate}
+              onChange={(e) => update({ fileNameTemplate: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+            <span className="text-[10px] text-daw-muted">
+              Fields: {FILE_NAME_TOKENS.map(token => `{${token}}`).join(' ')} ({'{n}'} counts up with every export)
+            </span>
+            <span className="text-xs text-daw-muted">
+              Next file: <span className="font-mono text-daw-accent">{formatFileName(metadata.fileNameTemplate, metadata, version)}.wav</span>
+            </span>
+          </label>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-daw-border bg-daw-bg/30 flex justify-end">
+          <button
+            onClick={onClose}
+            className="bg-daw-accent hover:bg-daw-accent/80 text-white px-6 py-2 rounded-lg font-medium transition-all"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
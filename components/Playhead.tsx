@@ -0,0 +1,41 @@
+import React, { useEffect, useRef } from 'react';
+
+interface PlayheadProps {
+  // Current timeline position in seconds, read every frame
+  getTime: () => number;
+  timelineDuration: number;
+  className?: string;
+}
+
+// Playhead line inside a lane's content box. Like GainReductionMeter, the
+// position is written directly from a rAF loop, so the rows that show it
+// don't re-render every frame while playing.
+export const Playhead: React.FC<PlayheadProps> = ({ getTime, timelineDuration, className = '' }) => {
+  const lineRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame: number;
+    let shown = '';
+
+    const render = () => {
+      const left = `${timelineDuration > 0 ? (getTime() / timelineDuration) * 100 : 0}%`;
+      if (lineRef.current && left !== shown) {
+        lineRef.current.style.left = left;
+        shown = left;
+      }
+      frame = requestAnimationFrame(render);
+    };
+
+    render();
+    return () => cancelAnimationFrame(frame);
+  }, [getTime, timelineDuration]);
+
+  if (timelineDuration <= 0) return null;
+
+  return (
+    <div
+      ref={lineRef}
+      className={`absolute top-0 bottom-0 w-[1px] bg-daw-text/80 pointer-events-none ${className}`}
+    />
+  );
+};
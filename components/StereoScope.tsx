@@ -0,0 +1,151 @@
+import React, { useEffect, useRef } from 'react';
+import { MonitorMode, MonitorSettings } from '../types';
+import { MONITOR_DIM_DB, MONITOR_MODE_LABELS } from '../services/monitor';
+
+interface StereoScopeProps {
+  analyserL: AnalyserNode | null;
+  analyserR: AnalyserNode | null;
+  monitor: MonitorSettings;
+  onMonitorChange: (monitor: MonitorSettings) => void;
+}
+
+// Correlation is averaged over a few frames so the needle is readable
+const CORRELATION_SMOOTHING = 0.85;
+// Below this energy the signal is treated as silence and the needle rests at 0
+const SILENCE_ENERGY = 1e-8;
+
+// Goniometer (mid up, side across) and phase correlation meter, both fed from
+// the master bus analysers. +1 = mono, 0 = wide/uncorrelated, -1 = out of phase.
+export const StereoScope: React.FC<StereoScopeProps> = ({ analyserL, analyserR, monitor, onMonitorChange }) => {
+  const scopeRef = useRef<HTMLCanvasElement>(null);
+  const needleRef = useRef<HTMLDivElement>(null);
+  const valueRef = useRef<HTMLSpanElement>(null);
+  const requestRef = useRef<number>();
+
+  useEffect(() => {
+    if (!analyserL || !analyserR) return;
+
+    const dataL = new Float32Array(analyserL.fftSize);
+    const dataR = new Float32Array(analyserR.fftSize);
+    let correlation = 0;
+
+    const draw = () => {
+      analyserL.getFloatTimeDomainData(dataL);
+      analyserR.getFloatTimeDomainData(dataR);
+
+      // Correlation: normalized cross-product of the two channels
+      let lr = 0, ll = 0, rr = 0;
+      for (let i = 0; i < dataL.length; i++) {
+        lr += dataL[i] * dataR[i];
+        ll += dataL[i] * dataL[i];
+        rr += dataR[i] * dataR[i];
+      }
+      const current = ll > SILENCE_ENERGY && rr > SILENCE_ENERGY ? lr / Math.sqrt(ll * rr) : 0;
+      correlation = CORRELATION_SMOOTHING * correlation + (1 - CORRELATION_SMOOTHING) * current;
+
+      if (needleRef.current) {
+        needleRef.current.style.left = `${((correlation + 1) / 2) * 100}%`;
+        needleRef.current.style.backgroundColor = correlation < 0 ? '#ef4444' : correlation < 0.3 ? '#eab308' : '#22c55e';
+      }
+      if (valueRef.current) {
+        valueRef.current.textContent = `${correlation >= 0 ? '+' : ''}${correlation.toFixed(2)}`;
+      }
+
+      const canvas = scopeRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        const size = canvas.width;
+        const center = size / 2;
+
+        // Fade the previous frames instead of clearing, for a short trail
+        ctx.fillStyle = 'rgba(30, 30, 36, 0.35)';
+        ctx.fillRect(0, 0, size, size);
+
+        ctx.strokeStyle = '#2a2a35';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(center, 0); ctx.lineTo(center, size); // M
+        ctx.moveTo(0, center); ctx.lineTo(size, center); // S
+        ctx.moveTo(0, 0); ctx.lineTo(size, size); // L
+        ctx.moveTo(size, 0); ctx.lineTo(0, size); // R
+        ctx.stroke();
+
+        // Rotate 45 degrees: mid (L+R) vertical, side (R-L) horizontal
+        const scale = center * 0.9 / Math.SQRT2;
+        ctx.fillStyle = '#646cff';
+        for (let i = 0; i < dataL.length; i += 2) {
+          const x = center + (dataR[i] - dataL[i]) * scale;
+          const y = center - (dataL[i] + dataR[i]) * scale;
+          ctx.fillRect(x, y, 1, 1);
+        }
+      }
+
+      requestRef.current = requestAnimationFrame(draw);
+    };
+
+    requestRef.current = requestAnimationFrame(draw);
+    return () => {
+      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+    };
+  }, [analyserL, analyserR]);
+
+  return (
+    <div className="h-full flex flex-col bg-daw-bg border-l border-daw-border p-2 w-40 select-none">
+      <span className="text-xs font-mono text-daw-muted font-bold mb-2">PHASE</span>
+
+      {/* Goniometer */}
+      <div className="relative bg-daw-panel border border-daw-border rounded overflow-hidden aspect-square">
+        <canvas ref={scopeRef} width={200} height={200} className="w-full h-full" />
+        <span className="absolute top-0.5 left-1/2 -translate-x-1/2 text-[8px] font-mono text-daw-muted/60">M</span>
+        <span className="absolute top-0.5 left-1 text-[8px] font-mono text-daw-muted/60">L</span>
+        <span className="absolute top-0.5 right-1 text-[8px] font-mono text-daw-muted/60">R</span>
+      </div>
+
+      {/* Correlation */}
+      <div className="mt-2" title="Phase correlation: +1 mono, 0 wide, below 0 out of phase (cancels in mono)">
+        <div className="relative h-3 bg-daw-panel border border-daw-border rounded overflow-hidden">
+          <div className="absolute inset-y-0 left-1/2 w-px bg-daw-border" />
+          <div ref={needleRef} className="absolute inset-y-0 w-1 -translate-x-1/2 bg-green-500" style={{ left: '50%' }} />
+        </div>
+        <div className="flex justify-between text-[9px] font-mono text-daw-muted mt-0.5">
+          <span>-1</span>
+          <span ref={valueRef} className="text-daw-text">+0.00</span>
+          <span>+1</span>
+        </div>
+      </div>
+
+      {/* Monitoring (speakers only, never the bounce) */}
+      <div className="mt-3 flex flex-col gap-1">
+        <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Monitor</span>
+        <div className="grid grid-cols-4 gap-0.5">
+          {(Object.keys(MONITOR_MODE_LABELS) as MonitorMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onMonitorChange({ ...monitor, mode })}
+              className={`py-0.5 rounded text-[9px] font-bold border ${
+                monitor.mode === mode
+                ? 'bg-daw-accent/20 border-daw-accent/60 text-daw-accent'
+                : 'bg-daw-panel border-daw-border text-daw-muted hover:text-white'
+              }`}
+              title={mode === 'mono' ? 'Mono fold-down' : mode === 'stereo' ? 'Stereo' : `${MONITOR_MODE_LABELS[mode]} only`}
+            >
+              {MONITOR_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onMonitorChange({ ...monitor, dim: !monitor.dim })}
+          className={`py-0.5 rounded text-[9px] font-bold border ${
+            monitor.dim
+            ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-400'
+            : 'bg-daw-panel border-daw-border text-daw-muted hover:text-white'
+          }`}
+          title={`Dim the speakers by ${-MONITOR_DIM_DB} dB`}
+        >
+          DIM {MONITOR_DIM_DB} dB
+        </button>
+        <p className="text-[9px] text-daw-muted/70 leading-tight">Affects listening only, not the bounce.</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Gauge, Plus, Trash2, Magnet } from 'lucide-react';
+import { TempoChange, TempoSettings } from '../types';
+import { BEAT_UNITS, MAX_BPM, MIN_BPM, getBarAt, getBpmAt } from '../services/tempo';
+
+interface TempoMenuProps {
+  tempo: TempoSettings;
+  currentTime: number;
+  isSnapping: boolean;
+  onChange: (tempo: TempoSettings) => void;
+  onSnapChange: (isSnapping: boolean) => void;
+}
+
+const clampBpm = (bpm: number) => Math.max(MIN_BPM, Math.min(MAX_BPM, bpm));
+
+// Header dropdown for the project tempo: BPM, time signature, tempo changes
+// from a given bar on, and grid snapping for clip and marker edits.
+export const TempoMenu: React.FC<TempoMenuProps> = ({ tempo, currentTime, isSnapping, onChange, onSnapChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const sortChanges = (changes: TempoChange[]) => [...changes].sort((a, b) => a.bar - b.bar);
+  const updateChange = (index: number, change: TempoChange) =>
+    onChange({ ...tempo, changes: sortChanges(tempo.changes.map((c, i) => i === index ? change : c)) });
+  const removeChange = (index: number) => onChange({ ...tempo, changes: tempo.changes.filter((_, i) => i !== index) });
+
+  // A change at the bar the playhead is in, starting from the tempo there
+  const addChange = () => {
+    const bar = Math.max(2, getBarAt(tempo, currentTime));
+    if (tempo.changes.some(c => c.bar === bar)) return;
+    onChange({ ...tempo, changes: sortChanges([...tempo.changes, { bar, bpm: Math.round(getBpmAt(tempo, currentTime)) }]) });
+  };
+
+  const inputClass = "bg-daw-bg border border-daw-border rounded text-right font-mono text-daw-text px-1 py-0.5 outline-none focus:border-daw-accent/50";
+  const buttonClass = "flex items-center gap-1 px-2 py-1 rounded border border-daw-border bg-daw-bg hover:border-daw-accent/50 hover:text-daw-accent text-[10px] font-bold transition-colors";
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium border border-transparent hover:border-daw-border transition-colors ${
+          isOpen ? 'text-white bg-daw-bg/50' : 'text-daw-muted hover:text-white hover:bg-daw-bg/50'
+        }`}
+        title="Tempo & Grid"
+      >
+        <Gauge size={14} />
+        <span className="font-mono text-[10px]">
+          {tempo.bpm} · {tempo.beatsPerBar}/{tempo.beatUnit}
+        </span>
+        {isSnapping && <Magnet size={10} className="text-daw-accent" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-72 bg-daw-panel border border-daw-border rounded-lg shadow-xl z-50 overflow-hidden text-xs">
+          <div className="p-2 border-b border-daw-border bg-daw-bg/50">
+            <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Tempo & Grid</span>
+          </div>
+
+          <div className="p-3 border-b border-daw-border flex flex-col gap-2">
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-daw-muted">Tempo</span>
+              <span className="flex items-center gap-1 text-daw-muted">
+                <input
+                  type="number"
+                  min={MIN_BPM}
+                  max={MAX_BPM}
+                  step="0.1"
+                  value={tempo.bpm}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) onChange({ ...tempo, bpm: clampBpm(value) });
+                  }}
+                  className={`w-16 ${inputClass}`}
+                />
+                BPM
+              </span>
+            </label>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-daw-muted">Time signature</span>
+              <span className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min="1"
+                  max="16"
+                  value={tempo.beatsPerBar}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value);
+                    if (!isNaN(value)) onChange({ ...tempo, beatsPerBar: Math.max(1, Math.min(16, value)) });
+                  }}
+                  className={`w-10 ${inputClass}`}
+                  title="Beats per bar"
+                />
+                <span className="text-daw-muted">/</span>
+                <select
+                  value={tempo.beatUnit}
+                  onChange={(e) => onChange({ ...tempo, beatUnit: parseInt(e.target.value) })}
+                  className={inputClass}
+                  title="Beat unit"
+                >
+                  {BEAT_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                </select>
+              </span>
+            </div>
+            <label className="flex items-center justify-between gap-2 cursor-pointer">
+              <span className="text-daw-muted">Snap edits to beats</span>
+              <input
+                type="checkbox"
+                checked={isSnapping}
+                onChange={(e) => onSnapChange(e.target.checked)}
+                className="accent-daw-accent"
+              />
+            </label>
+          </div>
+
+          {/* Tempo Map */}
+          <div className="p-3 flex flex-col gap-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[10px] uppercase font-bold text-daw-muted tracking-wider">Tempo changes</span>
+              <button onClick={addChange} className={buttonClass} title="Add a tempo change at the playhead's bar">
+                <Plus size={10} /> At playhead
+              </button>
+            </div>
+            {tempo.changes.length === 0 && (
+              <p className="text-[10px] text-daw-muted leading-tight">
+                The whole session runs at {tempo.bpm} BPM. Add a change to switch tempo from a given bar on.
+              </p>
+            )}
+            {tempo.changes.map((change, index) => (
+              <div key={index} className="flex items-center gap-1 group text-daw-muted">
+                <span>Bar</span>
+                <input
+                  type="number"
+                  min="2"
+                  value={change.bar}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value);
+                    if (!isNaN(value)) updateChange(index, { ...change, bar: Math.max(2, value) });
+                  }}
+                  className={`w-14 ${inputClass}`}
+                />
+                <span className="ml-auto" />
+                <input
+                  type="number"
+                  min={MIN_BPM}
+                  max={MAX_BPM}
+                  step="0.1"
+                  value={change.bpm}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) updateChange(index, { ...change, bpm: clampBpm(value) });
+                  }}
+                  className={`w-16 ${inputClass}`}
+                />
+                <span>BPM</span>
+                <button
+                  onClick={() => removeChange(index)}
+                  className="p-0.5 text-daw-muted hover:text-red-400 opacity-0 group-hover:opacity-100"
+                  title="Delete"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
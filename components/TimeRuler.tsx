@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { RulerUnit, TempoSettings, TimelineView } from '../types';
+import {
+  RULER_UNIT_LABELS,
+  getRulerTicks,
+  getVisibleSpan,
+  scrollTimelineView,
+  zoomTimelineView,
+  createDefaultTimelineView,
+} from '../services/timelineView';
+
+interface TimeRulerProps {
+  duration: number;
+  currentTime: number;
+  view: TimelineView;
+  unit: RulerUnit;
+  sampleRate: number; // For the samples unit
+  tempo: TempoSettings; // For the bars|beats unit
+  onViewChange: (view: TimelineView) => void;
+  onUnitChange: (unit: RulerUnit) => void;
+  onSeek: (time: number) => void;
+}
+
+// Zoom step of the buttons (Ctrl/⌘ + wheel zooms in smaller steps)
+const ZOOM_STEP = 2;
+
+// Ruler above the track list. Its columns line up with TrackRow so the
+// ruler sits exactly over the waveforms. Click or drag to seek; when zoomed
+// in, the bar along its top scrolls the view.
+export const TimeRuler: React.FC<TimeRulerProps> = ({
+  duration,
+  currentTime,
+  view,
+  unit,
+  sampleRate,
+  tempo,
+  onViewChange,
+  onUnitChange,
+  onSeek,
+}) => {
+  const laneRef = useRef<HTMLDivElement>(null);
+  const scrollDragRef = useRef<{ startX: number; scroll: number } | null>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const lane = laneRef.current;
+    if (!lane) return;
+    const observer = new ResizeObserver(() => setWidth(lane.clientWidth));
+    observer.observe(lane);
+    return () => observer.disconnect();
+  }, []);
+
+  const span = getVisibleSpan(view, duration);
+  const ticks = duration > 0 ? getRulerTicks(view.scroll, view.scroll + span, width, unit, sampleRate, tempo) : [];
+  const toPercent = (time: number) => ((time - view.scroll) / span) * 100;
+
+  const getTimeFromEvent = (e: React.PointerEvent) => {
+    const rect = laneRef.current!.getBoundingClientRect();
+    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    return view.scroll + x * span;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (duration <= 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onSeek(getTimeFromEvent(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (e.buttons !== 1 || duration <= 0) return;
+    onSeek(getTimeFromEvent(e));
+  };
+
+  // Scroll bar: the thumb is the visible part of the session
+  const handleThumbPointerDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    scrollDragRef.current = { startX: e.clientX, scroll: view.scroll };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handleThumbPointerMove = (e: React.PointerEvent) => {
+    e.stopPropagation(); // Not a seek
+    const drag = scrollDragRef.current;
+    if (!drag || !laneRef.current) return;
+    const seconds = ((e.clientX - drag.startX) / laneRef.current.clientWidth) * duration;
+    onViewChange(scrollTimelineView({ ...view, scroll: drag.scroll }, duration, seconds));
+  };
+
+  const zoomBy = (factor: number) => {
+    // Around the playhead when it's in view, else around the middle
+    const isVisible = currentTime >= view.scroll && currentTime <= view.scroll + span;
+    onViewChange(zoomTimelineView(view, duration, factor, isVisible ? currentTime : view.scroll + span / 2));
+  };
+
+  const buttonClass = "p-1 rounded text-daw-muted hover:text-white hover:bg-daw-bg disabled:opacity-30 disabled:pointer-events-none";
+
+  return (
+    <div className="flex h-8 bg-daw-panel border border-daw-border rounded-lg mb-2 overflow-hidden">
+      <div className="w-6 flex-shrink-0 border-r border-daw-border bg-daw-bg/50" />
+
+      {/* Unit & Zoom */}
+      <div className="w-60 flex-shrink-0 flex items-center gap-1 px-3 border-r border-daw-border bg-daw-bg/30">
+        <select
+          value={unit}
+          onChange={(e) => onUnitChange(e.target.value as RulerUnit)}
+          className="flex-1 bg-daw-panel border border-daw-border rounded text-[10px] text-daw-text px-1 py-0.5 outline-none focus:border-daw-accent/50"
+          title="Ruler unit"
+        >
+          {(Object.keys(RULER_UNIT_LABELS) as RulerUnit[]).map(key => (
+            <option key={key} value={key}>{RULER_UNIT_LABELS[key]}</option>
+          ))}
+        </select>
+        <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={view.zoom <= 1} className={buttonClass} title="Zoom out (Ctrl/⌘ + wheel)">
+          <ZoomOut size={14} />
+        </button>
+        <button onClick={() => zoomBy(ZOOM_STEP)} disabled={duration <= 0} className={buttonClass} title="Zoom in (Ctrl/⌘ + wheel)">
+          <ZoomIn size={14} />
+        </button>
+        <button onClick={() => onViewChange(createDefaultTimelineView())} disabled={view.zoom <= 1} className={buttonClass} title="Zoom to fit">
+          <Maximize2 size={14} />
+        </button>
+      </div>
+
+      {/* Ruler */}
+      <div
+        ref={laneRef}
+        data-timeline-lane
+        className="flex-1 relative bg-daw-bg cursor-text overflow-hidden select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+      >
+        {ticks.map(tick => (
+          <div
+            key={tick.time}
+            className={`absolute bottom-0 w-px ${tick.label !== null ? 'h-3 bg-daw-muted' : 'h-1.5 bg-daw-border'}`}
+            style={{ left: `${toPercent(tick.time)}%` }}
+          >
+            {tick.label !== null && (
+              <span className="absolute bottom-3 left-1 text-[9px] font-mono text-daw-muted whitespace-nowrap">{tick.label}</span>
+            )}
+          </div>
+        ))}
+
+        {/* Playhead */}
+        {duration > 0 && currentTime >= view.scroll && currentTime <= view.scroll + span && (
+          <div
+            className="absolute bottom-0 w-0 h-0 -translate-x-1/2 border-x-[5px] border-x-transparent border-b-[7px] border-b-white pointer-events-none"
+            style={{ left: `${toPercent(currentTime)}%` }}
+          />
+        )}
+
+        {/* Scroll Bar */}
+        {view.zoom > 1 && (
+          <div
+            className="absolute top-0 h-1.5 rounded-full bg-daw-accent/50 hover:bg-daw-accent cursor-grab active:cursor-grabbing"
+            style={{ left: `${(view.scroll / duration) * 100}%`, width: `${100 / view.zoom}%` }}
+            onPointerDown={handleThumbPointerDown}
+            onPointerMove={handleThumbPointerMove}
+            onPointerUp={() => { scrollDragRef.current = null; }}
+            title="Drag to scroll (Shift + wheel)"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
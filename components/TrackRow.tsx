@@ -1,46 +1,96 @@
 import React, { useEffect, useRef, useState, memo } from 'react';
 import WaveSurfer from 'wavesurfer.js';
-import { Clock, ChevronUp, ChevronDown } from 'lucide-react';
-import { AudioTrack } from '../types';
+import { Clock, ChevronUp, ChevronDown, Spline } from 'lucide-react';
+import { AudioClip, AudioTrack, AutomationLane as AutomationLaneData, AutomationParam, TempoSettings, TimelineView, TrackDynamics, TrackEq } from '../types';
+import { createTrackChain, TrackChain } from '../services/trackChain';
+import { computeClipPeaks, getTrackClips } from '../services/clips';
+import { Transport } from '../services/transport';
+import { loadAudioBuffer } from '../services/audioService';
+import { getEnvelopeValue, isLaneActive } from '../services/automation';
+import { getRulerTicks, getVisibleSpan } from '../services/timelineView';
+import { timeToBars } from '../services/tempo';
+import { ClipOverlay } from './ClipOverlay';
+import { AutomationLane } from './AutomationLane';
+import { EqEditor } from './EqEditor';
+import { DynamicsEditor } from './DynamicsEditor';
+import { GainReductionMeter } from './GainReductionMeter';
 
 interface TrackRowProps {
   track: AudioTrack;
   isPlaying: boolean;
+  // Read per frame by the playhead and automation displays; passing the time
+  // itself would re-render every row every frame
+  getPlayhead: () => number;
+  timelineDuration: number;
+  view: TimelineView;
+  grid: TempoSettings | null; // Bar/beat lines over the waveform, when the ruler shows bars
+  snap?: (time: number) => number;
   audioContext: AudioContext | null;
   masterNode: AudioNode | null;
+  transport: Transport | null;
   onVolumeChange: (id: string, volume: number) => void;
+  onPanChange: (id: string, pan: number) => void;
+  onPanLawToggle: (id: string) => void;
   onMuteToggle: (id: string) => void;
   onSoloToggle: (id: string) => void;
   onRemove: (id: string) => void;
+  onClipsChange: (id: string, clips: AudioClip[]) => void;
+  onAutomationChange: (id: string, param: AutomationParam, lane: AutomationLaneData) => void;
+  onEqChange: (id: string, eq: TrackEq) => void;
+  onDynamicsChange: (id: string, dynamics: TrackDynamics) => void;
+  onSeek: (time: number) => void;
   onReady: (id: string, ws: WaveSurfer, buffer: AudioBuffer) => void;
   
   // Reorder props
   isFirst: boolean;
   isLast: boolean;
-  onMoveUp: () => void;
-  onMoveDown: () => void;
+  onMove: (id: string, direction: 'up' | 'down') => void;
 }
 
 // Wrap in memo to prevent re-rendering entire list when Master Volume changes
 export const TrackRow = memo<TrackRowProps>(({
   track,
   isPlaying,
+  getPlayhead,
+  timelineDuration,
+  view,
+  grid,
+  snap,
   audioContext,
   masterNode,
+  transport,
   onVolumeChange,
+  onPanChange,
+  onPanLawToggle,
   onMuteToggle,
   onSoloToggle,
   onRemove,
+  onClipsChange,
+  onAutomationChange,
+  onEqChange,
+  onDynamicsChange,
+  onSeek,
   onReady,
   isFirst,
   isLast,
-  onMoveUp,
-  onMoveDown
+  onMove
 }) => {
   const waveformContainerRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
-  const sourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const [isAutomationOpen, setIsAutomationOpen] = useState(false);
+  const [isEqOpen, setIsEqOpen] = useState(false);
+  const [isDynamicsOpen, setIsDynamicsOpen] = useState(false);
+  const [chain, setChain] = useState<TrackChain | null>(null);
+  const [waveformWidth, setWaveformWidth] = useState(0);
+
+  // Latest props for effects that read them without re-running on every change
+  const trackRef = useRef(track);
+  trackRef.current = track;
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
 
   // State for editable dB input
   const [dbInput, setDbInput] = useState<string>("-inf");
@@ -53,12 +103,35 @@ export const TrackRow = memo<TrackRowProps>(({
     return db.toFixed(1);
   };
 
-  // Sync internal DB state when volume changes externally (slider/mute)
+  // In read mode the controls follow the envelope while playing. Only rows
+  // with an active lane poll the playhead, so the rest don't re-render.
+  const { volume: volumeLane, pan: panLane } = track.automation;
+  const isFollowingEnvelope = isPlaying && (isLaneActive(volumeLane) || isLaneActive(panLane));
+  const [envelopeTime, setEnvelopeTime] = useState(0);
+  useEffect(() => {
+    if (!isFollowingEnvelope) return;
+    let frame: number;
+    const tick = () => {
+      setEnvelopeTime(getPlayhead());
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isFollowingEnvelope, getPlayhead]);
+
+  const displayVolume = isPlaying && isLaneActive(volumeLane)
+    ? getEnvelopeValue(volumeLane.points, envelopeTime, track.volume)
+    : track.volume;
+  const displayPan = isPlaying && isLaneActive(panLane)
+    ? getEnvelopeValue(panLane.points, envelopeTime, track.pan)
+    : track.pan;
+
+  // Sync internal DB state when volume changes externally (slider/mute/automation)
   useEffect(() => {
     if (!isEditingDb) {
-      setDbInput(getDbValue(track.isMuted ? 0 : track.volume));
+      setDbInput(getDbValue(track.isMuted ? 0 : displayVolume));
     }
-  }, [track.volume, track.isMuted, isEditingDb]);
+  }, [displayVolume, track.isMuted, isEditingDb]);
 
   // Handle manual DB input commit (Enter or Blur)
   const commitDbChange = () => {
@@ -90,6 +163,13 @@ export const TrackRow = memo<TrackRowProps>(({
     }
   };
 
+  // Pan display: "C", "L40", "R100"
+  const getPanLabel = (pan: number) => {
+    const amount = Math.round(Math.abs(pan) * 100);
+    if (amount === 0) return 'C';
+    return `${pan < 0 ? 'L' : 'R'}${amount}`;
+  };
+
   // Format duration helper
   const formatDuration = (seconds: number) => {
     if (!seconds) return '--:--';
@@ -101,12 +181,14 @@ export const TrackRow = memo<TrackRowProps>(({
   useEffect(() => {
     if (!waveformContainerRef.current) return;
 
-    // Initialize WaveSurfer
+    // Initialize WaveSurfer. It only draws the clip layout; audio is
+    // scheduled from the decoded buffer on the shared AudioContext.
+    // Zoom and scroll follow the shared timeline view.
     const ws = WaveSurfer.create({
       container: waveformContainerRef.current,
       waveColor: '#646cff',
-      progressColor: '#a6acff',
-      cursorColor: '#ececf1',
+      progressColor: '#646cff',
+      cursorWidth: 0,
       barWidth: 2,
       barGap: 1,
       barRadius: 2,
@@ -115,78 +197,115 @@ export const TrackRow = memo<TrackRowProps>(({
       minPxPerSec: 50,
       fillParent: true,
       interact: false,
+      hideScrollbar: true,
+      autoScroll: false,
+      autoCenter: false,
     });
 
-    ws.load(track.url);
-
-    ws.on('ready', () => {
-      // 1. Hook up to Master Meter Audio Graph
-      if (audioContext && masterNode) {
-        const mediaElement = ws.getMediaElement();
-        if (!sourceNodeRef.current) {
-             try {
-                const source = audioContext.createMediaElementSource(mediaElement);
-                source.connect(masterNode);
-                sourceNodeRef.current = source;
-             } catch (e) {
-                console.warn("Could not connect source", e);
-             }
-        }
-      }
+    wavesurferRef.current = ws;
 
-      // 2. Fetch buffer for export cache
-      const fetchBuffer = async () => {
-        const ctx = new AudioContext();
-        const arrayBuffer = await track.file.arrayBuffer();
-        const audioBuffer = await ctx.decodeAudioData(arrayBuffer);
-        ctx.close();
-        onReady(track.id, ws, audioBuffer);
-        setIsLoaded(true);
-      };
-      fetchBuffer();
-    });
+    // Decode the file once; playback, waveform and export all use this buffer.
+    // A row's file never changes, so this runs on mount only.
+    let isCancelled = false;
+    const fetchBuffer = async () => {
+      const ctx = new AudioContext();
+      const { file, id } = trackRef.current;
+      const audioBuffer = await loadAudioBuffer(file, ctx);
+      ctx.close();
+      if (isCancelled) return;
+      onReadyRef.current(id, ws, audioBuffer);
+      setIsLoaded(true);
+    };
+    fetchBuffer().catch(e => console.warn("Could not decode track", e));
 
-    ws.setVolume(track.isMuted ? 0 : track.volume);
+    return () => {
+      isCancelled = true;
+      ws.destroy();
+    };
+  }, []);
 
-    wavesurferRef.current = ws;
+  // Hook up to Master Meter Audio Graph once the engine (and its worklets) is ready.
+  // Fader, pan and inserts live in the Web Audio graph so the live mix goes
+  // through the same chain as the bounce.
+  useEffect(() => {
+    if (!audioContext || !masterNode) return;
+    const newChain = createTrackChain(audioContext, trackRef.current);
+    newChain.output.connect(masterNode);
+    setChain(newChain);
 
     return () => {
-      ws.destroy();
-      if (sourceNodeRef.current) {
-        sourceNodeRef.current.disconnect();
-        sourceNodeRef.current = null;
-      }
+      newChain.disconnect();
+      setChain(null);
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [audioContext, masterNode]);
+
+  // Panel width in pixels, to turn the shared zoom into pixels per second
+  useEffect(() => {
+    const container = waveformContainerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setWaveformWidth(container.clientWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
   }, []);
 
-  // Watch for play/pause
+  const visibleSpan = getVisibleSpan(view, timelineDuration);
+  const gridLines = grid && timelineDuration > 0
+    ? getRulerTicks(view.scroll, view.scroll + visibleSpan, waveformWidth, 'bars', 0, grid).map(tick => tick.time)
+    : [];
+
+  // All rows share one scale: the panel width shows duration / zoom seconds
+  const pxPerSec = timelineDuration > 0 ? (view.zoom * (waveformWidth || 1000)) / timelineDuration : 0;
+
+  // Redraw the waveform whenever the clip layout, timeline length or zoom changes.
+  // The clip layout is read through trackRef so other track edits (fader,
+  // inserts) don't redraw; scrolling has its own effect below, so the
+  // position is only read here to restore it after the reload.
+  const { audioBuffer, clips } = track;
   useEffect(() => {
-    if (!wavesurferRef.current || !isLoaded) return;
-    
-    if (isPlaying) {
-      wavesurferRef.current.play();
-    } else {
-      wavesurferRef.current.pause();
-    }
-  }, [isPlaying, isLoaded]);
+    const ws = wavesurferRef.current;
+    if (!ws || !audioBuffer || pxPerSec <= 0) return;
+
+    // One peak per pixel of the zoomed-in width
+    const layout = getTrackClips(trackRef.current);
+    const peaks = computeClipPeaks(audioBuffer, layout, timelineDuration, Math.ceil(timelineDuration * pxPerSec));
+    ws.setOptions({ minPxPerSec: pxPerSec });
+    ws.load('', [peaks], timelineDuration)
+      .then(() => ws.setScroll(viewRef.current.scroll * pxPerSec))
+      .catch(e => console.warn("Could not draw the waveform", e));
+  }, [audioBuffer, clips, timelineDuration, pxPerSec]);
+
+  useEffect(() => {
+    wavesurferRef.current?.setScroll(view.scroll * pxPerSec);
+  }, [view.scroll, pxPerSec]);
+
+  // Playback is scheduled by the shared transport, from the same anchor for every track
+  useEffect(() => {
+    if (!transport || !chain) return;
+    return transport.register(trackRef.current, chain);
+  }, [transport, chain]);
 
-  // Watch for volume/mute changes
+  // Clip and automation edits are rescheduled while playing
   useEffect(() => {
-    if (!wavesurferRef.current) return;
-    wavesurferRef.current.setVolume(track.isMuted ? 0 : track.volume);
-  }, [track.volume, track.isMuted]);
+    transport?.updateTrack(track);
+  }, [transport, track]);
+
+  // Watch for volume/mute/pan/insert changes. The chain only reads those
+  // fields, so the track comes through trackRef and clip or automation edits
+  // (rescheduled by the transport above) don't push the same values again.
+  const { volume, isMuted, pan, panLaw, eq, dynamics } = track;
+  useEffect(() => {
+    chain?.update(trackRef.current);
+  }, [chain, volume, isMuted, pan, panLaw, eq, dynamics]);
 
   return (
-    <div 
-      className="flex bg-daw-panel border border-daw-border rounded-lg mb-2 overflow-hidden hover:border-daw-accent/50 transition-colors h-28 shadow-sm"
-    >
+    <div className="bg-daw-panel border border-daw-border rounded-lg mb-2 overflow-hidden hover:border-daw-accent/50 transition-colors shadow-sm">
+    <div className="flex h-28">
       
       {/* Reorder / Drag Handle Column */}
       <div className="w-6 flex-shrink-0 flex flex-col items-center justify-center gap-2 py-2 bg-daw-bg/50 border-r border-daw-border text-daw-muted">
          <button 
             className={`p-1 hover:text-white transition-colors hover:bg-daw-panel rounded ${isFirst ? 'opacity-20 cursor-default' : ''}`}
-            onClick={onMoveUp}
+            onClick={() => onMove(track.id, 'up')}
             disabled={isFirst}
             title="Move Up"
          >
@@ -195,7 +314,7 @@ export const TrackRow = memo<TrackRowProps>(({
          
          <button 
             className={`p-1 hover:text-white transition-colors hover:bg-daw-panel rounded ${isLast ? 'opacity-20 cursor-default' : ''}`}
-            onClick={onMoveDown}
+            onClick={() => onMove(track.id, 'down')}
             disabled={isLast}
             title="Move Down"
          >
@@ -223,6 +342,43 @@ export const TrackRow = memo<TrackRowProps>(({
                 )}
             </div>
           </div>
+          <button
+            onClick={() => setIsEqOpen(!isEqOpen)}
+            className={`px-1 py-0.5 text-[9px] font-bold rounded border transition-colors flex-shrink-0 ml-auto ${
+              isEqOpen
+              ? 'border-daw-accent/60 text-daw-accent'
+              : track.eq.bypass
+                ? 'border-daw-border text-daw-muted hover:text-white'
+                : 'border-green-500/40 text-green-400 hover:text-green-300'
+            }`}
+            title="Show EQ"
+          >
+            EQ
+          </button>
+          <button
+            onClick={() => setIsDynamicsOpen(!isDynamicsOpen)}
+            className={`px-1 py-0.5 text-[9px] font-bold rounded border transition-colors flex-shrink-0 ${
+              isDynamicsOpen
+              ? 'border-daw-accent/60 text-daw-accent'
+              : track.dynamics.gate.enabled || track.dynamics.compressor.enabled
+                ? 'border-green-500/40 text-green-400 hover:text-green-300'
+                : 'border-daw-border text-daw-muted hover:text-white'
+            }`}
+            title="Show Dynamics (gate & compressor)"
+          >
+            DYN
+          </button>
+          <button
+            onClick={() => setIsAutomationOpen(!isAutomationOpen)}
+            className={`p-1 transition-colors flex-shrink-0 ${
+              isAutomationOpen || volumeLane.mode !== 'off' || panLane.mode !== 'off'
+              ? 'text-yellow-400 hover:text-yellow-300'
+              : 'text-daw-muted hover:text-white'
+            }`}
+            title="Show Automation"
+          >
+            <Spline size={14} />
+          </button>
           <button 
             onClick={() => onRemove(track.id)}
             className="text-daw-muted hover:text-red-400 p-1 transition-colors flex-shrink-0"
@@ -254,6 +410,30 @@ export const TrackRow = memo<TrackRowProps>(({
           >
             S
           </button>
+
+          {/* Pan: double-click to center, click the label to switch pan law */}
+          <input
+            type="range"
+            min="-1"
+            max="1"
+            step="0.01"
+            value={displayPan}
+            onChange={(e) => onPanChange(track.id, parseFloat(e.target.value))}
+            onDoubleClick={() => onPanChange(track.id, 0)}
+            onPointerDown={(e) => e.stopPropagation()}
+            className="w-16 h-1 bg-daw-border rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-2.5 [&::-webkit-slider-thumb]:h-2.5 [&::-webkit-slider-thumb]:bg-daw-text [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:bg-daw-accent"
+            title="Pan (double-click to center)"
+          />
+          <button
+            onClick={() => onPanLawToggle(track.id)}
+            className="w-9 text-right text-[10px] font-mono text-daw-muted hover:text-white"
+            title={`Pan law: ${track.panLaw === 'equal-power' ? 'Equal power' : 'Linear'} (click to switch)`}
+          >
+            {getPanLabel(displayPan)}
+            <span className="block text-[8px] leading-none text-daw-muted/60">
+              {track.panLaw === 'equal-power' ? 'EQP' : 'LIN'}
+            </span>
+          </button>
         </div>
 
         {/* Bottom: Volume & dB */}
@@ -263,7 +443,7 @@ export const TrackRow = memo<TrackRowProps>(({
                 min="0"
                 max="1"
                 step="0.01"
-                value={track.volume}
+                value={displayVolume}
                 onChange={(e) => onVolumeChange(track.id, parseFloat(e.target.value))}
                 onPointerDown={(e) => e.stopPropagation()} // Prevent drag when using slider
                 className="flex-1 h-1.5 bg-daw-border rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-daw-accent [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:bg-white"
@@ -283,11 +463,12 @@ export const TrackRow = memo<TrackRowProps>(({
                 />
                 <span className="text-[10px] font-mono text-daw-muted select-none">dB</span>
             </div>
+            <GainReductionMeter getReduction={chain ? chain.getGainReduction : null} />
         </div>
       </div>
 
       {/* RIGHT: Waveform (Flex Grow) */}
-      <div className="flex-1 relative bg-daw-bg">
+      <div data-timeline-lane className="flex-1 relative bg-daw-bg overflow-hidden">
         {!isLoaded && (
           <div className="absolute inset-0 flex items-center justify-center text-xs text-daw-muted animate-pulse z-10">
             Parsing audio...
@@ -297,7 +478,55 @@ export const TrackRow = memo<TrackRowProps>(({
         <div className="absolute inset-0 flex items-center">
             <div ref={waveformContainerRef} className="w-full" />
         </div>
+        {/* Grid */}
+        {grid && gridLines.map(time => {
+          const bars = timeToBars(grid, time);
+          const isBar = Math.abs(bars - Math.round(bars)) < 1e-6;
+          return (
+            <div
+              key={time}
+              className={`absolute top-0 bottom-0 w-px pointer-events-none ${isBar ? 'bg-white/15' : 'bg-white/5'}`}
+              style={{ left: `${((time - view.scroll) / visibleSpan) * 100}%` }}
+            />
+          );
+        })}
+        {isLoaded && (
+          <ClipOverlay
+            clips={getTrackClips(track)}
+            timelineDuration={timelineDuration}
+            bufferDuration={track.duration}
+            getPlayhead={getPlayhead}
+            view={view}
+            onClipsChange={(clips) => onClipsChange(track.id, clips)}
+            onSeek={onSeek}
+            snap={snap}
+          />
+        )}
       </div>
     </div>
+
+    {isEqOpen && (
+      <EqEditor eq={track.eq} onChange={(eq) => onEqChange(track.id, eq)} />
+    )}
+
+    {isDynamicsOpen && (
+      <DynamicsEditor
+        dynamics={track.dynamics}
+        isGateAvailable={chain ? chain.hasGate : true}
+        onChange={(dynamics) => onDynamicsChange(track.id, dynamics)}
+      />
+    )}
+
+    {isAutomationOpen && (
+      <AutomationLane
+        automation={track.automation}
+        fallbackValues={{ volume: track.volume, pan: track.pan }}
+        timelineDuration={timelineDuration}
+        getPlayhead={getPlayhead}
+        view={view}
+        onLaneChange={(param, lane) => onAutomationChange(track.id, param, lane)}
+      />
+    )}
+    </div>
   );
 });
\ No newline at end of file
@@ -1,75 +1,24 @@
-import { AudioTrack } from '../types';
-
-// lamejs is loaded via <script> tag in index.html for the main thread, 
-// but for the worker we need to import it explicitly inside the worker scope.
-declare const lamejs: any;
-
-// --- WORKER CODE AS STRING ---
-// We use a Blob Worker to avoid needing a separate file/bundler configuration.
-// This worker runs the encoding in a separate thread at full CPU speed.
-const WORKER_CODE = `
-importScripts('https://cdn.jsdelivr.net/npm/lamejs@1.2.1/lame.min.js');
-
-self.onmessage = function(e) {
-  const { channels, sampleRate, samplesL, samplesR } = e.data;
-  
-  if (typeof lamejs === 'undefined') {
-    self.postMessage({ error: 'Failed to load lamejs in worker' });
-    return;
-  }
-
-  try {
-    const mp3encoder = new lamejs.Mp3Encoder(channels, sampleRate, 320);
-    const mp3Data = [];
-    const sampleBlockSize = 1152;
-    
-    // Convert Float32 to Int16
-    // We do this inside the worker to keep the main thread completely free
-    const length = samplesL.length;
-    const samplesL_int16 = new Int16Array(length);
-    const samplesR_int16 = new Int16Array(length);
-
-    for (let i = 0; i < length; i++) {
-      // Left
-      let valL = Math.max(-1, Math.min(1, samplesL[i]));
-      samplesL_int16[i] = valL < 0 ? valL * 0x8000 : valL * 0x7FFF;
-      
-      // Right
-      let valR = samplesR ? Math.max(-1, Math.min(1, samplesR[i])) : valL;
-      samplesR_int16[i] = valR < 0 ? valR * 0x8000 : valR * 0x7FFF;
-    }
-
-    // Encode Loop (Tight loop, no timeouts needed here!)
-    for (let i = 0; i < length; i += sampleBlockSize) {
-      const chunkL = samplesL_int16.subarray(i, i + sampleBlockSize);
-      const chunkR = samplesR_int16.subarray(i, i + sampleBlockSize);
-      const mp3buf = mp3encoder.encodeBuffer(chunkL, chunkR);
-      if (mp3buf.length > 0) {
-        mp3Data.push(mp3buf);
-      }
-    }
-
-    const mp3buf = mp3encoder.flush();
-    if (mp3buf.length > 0) {
-      mp3Data.push(mp3buf);
-    }
-
-    // Send back the Blob
-    const blob = new Blob(mp3Data, { type: 'audio/mp3' });
-    self.postMessage({ blob });
-    
-  } catch (err) {
-    self.postMessage({ error: err.message });
-  }
-};
-`;
+import { AudioTrack, DitherMode, ExportBitDepth, ExportFormat, ExportMetadata, ExportSettings, LimiterSettings, Marker, LoudnessReport, LoudnessTarget, TempoSettings, TimeRange } from '../types';
+import { createTrackChain } from './trackChain';
+import { getClipEnd, getTrackClips, scheduleClips } from './clips';
+import { loadWorklets } from './worklets';
+import { scheduleClicks } from './metronome';
+import { createDefaultLimiter, createLimiterStage, getLimiterLatency } from './limiter';
+import { getDynamicsLatency } from './dynamics';
+import { normalizeLoudness } from './loudness';
+import { createZip, sanitizeFileName, ZipEntry } from './zip';
+import { quantizeSamples } from './dither';
+import { audioBufferToFlac, FLAC_DEFAULT_COMPRESSION } from './flac';
+import { createBextChunk, createCueChunks, createDefaultMetadata, createFlacPicture, createId3Tag, createInfoChunk, getVorbisComments } from './metadata';
+import { getChapters, getMarkersInSpan } from './markers';
+import { audioBufferToMp3, getMp3AverageBitrate, MP3_DEFAULT_BITRATE, MP3_DEFAULT_QUALITY } from './mp3';
 
 // Helper to convert an AudioBuffer to a WAV Blob
-function audioBufferToWav(buffer: AudioBuffer, opt?: any): Blob {
+// `chunks` are extra RIFF chunks (tags) written between "fmt " and "data"
+function audioBufferToWav(buffer: AudioBuffer, bitDepth: ExportBitDepth = 16, dither: DitherMode = 'tpdf', chunks: Uint8Array[] = []): Blob {
   const numChannels = buffer.numberOfChannels;
   const sampleRate = buffer.sampleRate;
-  const format = opt?.float32 ? 3 : 1;
-  const bitDepth = format === 3 ? 32 : 16;
+  const format = bitDepth === 32 ? 3 : 1;
 
   let result: Float32Array;
   if (numChannels === 2) {
@@ -78,49 +27,7 @@ function audioBufferToWav(buffer: AudioBuffer, opt?: any): Blob {
     result = buffer.getChannelData(0);
   }
 
-  return encodeWAV(result, format, sampleRate, numChannels, bitDepth);
-}
-
-// Optimized Helper to convert AudioBuffer to MP3 Blob using a Web Worker
-async function audioBufferToMp3(buffer: AudioBuffer): Promise<Blob> {
-  return new Promise((resolve, reject) => {
-    // Create Worker from string
-    const blob = new Blob([WORKER_CODE], { type: 'application/javascript' });
-    const workerUrl = URL.createObjectURL(blob);
-    const worker = new Worker(workerUrl);
-
-    // Prepare data
-    const channels = buffer.numberOfChannels;
-    const sampleRate = buffer.sampleRate;
-    const samplesL = buffer.getChannelData(0);
-    const samplesR = channels > 1 ? buffer.getChannelData(1) : new Float32Array(samplesL);
-
-    worker.onmessage = (e) => {
-      if (e.data.error) {
-        reject(new Error(e.data.error));
-      } else if (e.data.blob) {
-        resolve(e.data.blob);
-      }
-      worker.terminate(); // Cleanup
-      URL.revokeObjectURL(workerUrl); // Cleanup URL
-    };
-
-    worker.onerror = (e) => {
-      reject(new Error("Worker error: " + e.message));
-      worker.terminate();
-      URL.revokeObjectURL(workerUrl);
-    };
-
-    // Send data to worker
-    // We use the second argument [transferList] to transfer ownership of the buffers
-    // This makes sending the data instantaneous (zero-copy)
-    worker.postMessage({
-      channels,
-      sampleRate,
-      samplesL, // These will be transferred
-      samplesR  // These will be transferred
-    }, [samplesL.buffer, samplesR.buffer]); // Transfer buffer ownership
-  });
+  return encodeWAV(result, format, sampleRate, numChannels, bitDepth, dither, chunks);
 }
 
 function interleave(inputL: Float32Array, inputR: Float32Array) {
@@ -138,17 +45,29 @@ function interleave(inputL: Float32Array, inputR: Float32Array) {
   return result;
 }
 
-function encodeWAV(samples: Float32Array, format: number, sampleRate: number, numChannels: number, bitDepth: number) {
+function encodeWAV(
+  samples: Float32Array,
+  format: number,
+  sampleRate: number,
+  numChannels: number,
+  bitDepth: number,
+  dither: DitherMode,
+  chunks: Uint8Array[] = [],
+) {
   const bytesPerSample = bitDepth / 8;
   const blockAlign = numChannels * bytesPerSample;
+  const chunksLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const dataLength = samples.length * bytesPerSample;
+  // RIFF chunks are word-aligned: odd data (24-bit mono, odd frame count) gets a zero pad byte
+  const padLength = dataLength % 2;
 
-  const buffer = new ArrayBuffer(44 + samples.length * bytesPerSample);
+  const buffer = new ArrayBuffer(44 + dataLength + padLength);
   const view = new DataView(buffer);
 
   /* RIFF identifier */
   writeString(view, 0, 'RIFF');
-  /* RIFF chunk length */
-  view.setUint32(4, 36 + samples.length * bytesPerSample, true);
+  /* RIFF chunk length (the pad byte counts, the data chunk length below doesn't) */
+  view.setUint32(4, 36 + chunksLength + dataLength + padLength, true);
   /* RIFF type */
   writeString(view, 8, 'WAVE');
   /* format chunk identifier */
@@ -170,17 +89,20 @@ function encodeWAV(samples: Float32Array, format: number, sampleRate: number, nu
   /* data chunk identifier */
   writeString(view, 36, 'data');
   /* data chunk length */
-  view.setUint32(40, samples.length * bytesPerSample, true);
+  view.setUint32(40, dataLength, true);
 
-  if (format === 1) {
+  if (format === 1 && bitDepth === 24) {
+    // 24-bit PCM
+    write24BitPCM(view, 44, quantizeSamples(samples, numChannels, 24, dither));
+  } else if (format === 1) {
     // 16-bit PCM
-    floatTo16BitPCM(view, 44, samples);
+    write16BitPCM(view, 44, quantizeSamples(samples, numChannels, 16, dither));
   } else {
     // 32-bit Float
     writeFloat32(view, 44, samples);
   }
 
-  return new Blob([view], { type: 'audio/wav' });
+  return new Blob([new Uint8Array(buffer, 0, 36), ...chunks, new Uint8Array(buffer, 36)], { type: 'audio/wav' });
 }
 
 function writeString(view: DataView, offset: number, string: string) {
@@ -189,10 +111,19 @@ function writeString(view: DataView, offset: number, string: string) {
   }
 }
 
-function floatTo16BitPCM(output: DataView, offset: number, input: Float32Array) {
+function write16BitPCM(output: DataView, offset: number, input: Int32Array) {
   for (let i = 0; i < input.length; i++, offset += 2) {
-    const s = Math.max(-1, Math.min(1, input[i]));
-    output.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+    output.setInt16(offset, input[i], true);
+  }
+}
+
+function write24BitPCM(output: DataView, offset: number, input: Int32Array) {
+  for (let i = 0; i < input.length; i++, offset += 3) {
+    const value = input[i];
+    // Little-endian, three bytes
+    output.setUint8(offset, value & 0xFF);
+    output.setUint8(offset + 1, (value >> 8) & 0xFF);
+    output.setUint8(offset + 2, (value >> 16) & 0xFF);
   }
 }
 
@@ -202,88 +133,327 @@ function writeFloat32(output: DataView, offset: number, input: Float32Array) {
   }
 }
 
+// Drops the first `samples` frames, used to undo the limiter's look-ahead delay
+function trimLeadingSamples(buffer: AudioBuffer, samples: number): AudioBuffer {
+  if (samples <= 0) return buffer;
+  const trimmed = new AudioBuffer({
+    numberOfChannels: buffer.numberOfChannels,
+    length: Math.max(1, buffer.length - samples),
+    sampleRate: buffer.sampleRate,
+  });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    trimmed.copyToChannel(buffer.getChannelData(c).subarray(samples), c);
+  }
+  return trimmed;
+}
+
 export const loadAudioBuffer = async (blob: Blob, audioContext: AudioContext): Promise<AudioBuffer> => {
   const arrayBuffer = await blob.arrayBuffer();
   return await audioContext.decodeAudioData(arrayBuffer);
 };
 
-export const estimateFileSize = (duration: number, format: 'wav' | 'mp3'): string => {
-  if (duration <= 0) return '0 MB';
+export const EXPORT_SAMPLE_RATES = [44100, 48000, 88200, 96000];
+
+export const createDefaultExportSettings = (): ExportSettings => ({
+  sampleRate: 44100,
+  bitDepth: 16,
+  channels: 2,
+  dither: 'tpdf',
+  flacCompression: FLAC_DEFAULT_COMPRESSION,
+  cueSheet: false,
+  exportLoop: false,
+  includeClick: false,
+  mp3Mode: 'cbr',
+  mp3Bitrate: MP3_DEFAULT_BITRATE,
+  mp3Quality: MP3_DEFAULT_QUALITY,
+  preRoll: 0,
+  postRoll: 0,
+});
+
+// The part of the timeline that ends up in the file: the whole session,
+// or the in/out range widened by the pre- and post-roll
+export const getExportSpan = (
+  duration: number,
+  range: TimeRange | null,
+  settings: ExportSettings = createDefaultExportSettings(),
+): TimeRange => {
+  if (!range) return { start: 0, end: duration };
+  return {
+    start: Math.max(0, range.start - settings.preRoll),
+    end: range.end + settings.postRoll,
+  };
+};
+
+// MPEG-1 Layer III only goes up to 48 kHz, so high-rate exports are
+// encoded at the base rate of the same family
+export const getMp3SampleRate = (sampleRate: number) => sampleRate % 44100 === 0 ? 44100 : 48000;
+
+export const getMp3Options = (settings: ExportSettings) => ({
+  mode: settings.mp3Mode,
+  bitrate: settings.mp3Bitrate,
+  quality: settings.mp3Quality,
+});
 
+// FLAC has no float samples
+export const getFlacBitDepth = (settings: ExportSettings): 16 | 24 => settings.bitDepth === 16 ? 16 : 24;
+
+const FLAC_SIZE_RATIO = 0.6;
+
+export const estimateFileSize = (
+  duration: number,
+  format: ExportFormat,
+  settings: ExportSettings = createDefaultExportSettings(),
+): string => {
+  if (duration <= 0) return '0 MB';
+  
   let bytes = 0;
   if (format === 'wav') {
-    // 44.1kHz * 16-bit (2 bytes) * 2 channels
-    bytes = 44100 * 2 * 2 * duration; 
+    // Sample rate * bytes per sample * channels
+    bytes = settings.sampleRate * (settings.bitDepth / 8) * settings.channels * duration;
     // Add header size (minimal)
     bytes += 44;
+  } else if (format === 'flac') {
+    // Typically 55-65% of the same PCM for mixed music
+    bytes = settings.sampleRate * (getFlacBitDepth(settings) / 8) * settings.channels * duration * FLAC_SIZE_RATIO;
   } else {
-    // MP3 320kbps
-    // 320,000 bits / 8 = 40,000 bytes per second
-    bytes = 40000 * duration;
+    // kbps * 1000 / 8 bytes per second
+    bytes = getMp3AverageBitrate(getMp3Options(settings)) * 125 * duration;
   }
-
+  
   const mb = bytes / (1024 * 1024);
   return `${mb.toFixed(1)} MB`;
 };
 
-export const bounceTracks = async (tracks: AudioTrack[], masterVolume: number = 1.0, format: 'wav' | 'mp3' = 'wav'): Promise<Blob> => {
-  // 1. Determine max duration
-  let maxDuration = 0;
-  const activeTracks = tracks.filter(t => !t.isMuted);
+export interface BounceResult {
+  blob: Blob;
+  loudness: LoudnessReport | null; // Only when normalizing to a target
+}
 
-  if (activeTracks.length === 0) {
-    throw new Error("No tracks to export (or all are muted).");
-  }
+export type StemStatus = 'pending' | 'rendering' | 'encoding' | 'done';
+
+export interface StemProgress {
+  name: string;
+  status: StemStatus;
+}
+
+interface DecodedTrack {
+  buffer: AudioBuffer;
+  track: AudioTrack;
+}
+
+// Decodes whatever isn't loaded yet and finds where the last clip ends
+const decodeTracks = async (tracks: AudioTrack[]): Promise<{ decoded: DecodedTrack[]; duration: number }> => {
+  let duration = 0;
+  const decoded: DecodedTrack[] = [];
 
   // We need the audio buffers to know the duration
   const tempCtx = new AudioContext();
-  const buffers: { buffer: AudioBuffer; volume: number }[] = [];
-
-  for (const track of activeTracks) {
+  for (const track of tracks) {
     let buffer = track.audioBuffer;
     if (!buffer) {
        buffer = await loadAudioBuffer(track.file, tempCtx);
     }
-    
     if (buffer) {
-      if (buffer.duration > maxDuration) maxDuration = buffer.duration;
-      buffers.push({ buffer, volume: track.volume });
+      const clips = getTrackClips(track, buffer.duration);
+      clips.forEach(clip => {
+        if (getClipEnd(clip) > duration) duration = getClipEnd(clip);
+      });
+      decoded.push({ buffer, track });
     }
   }
-
   tempCtx.close();
 
-  // 2. Create Offline Context
-  const sampleRate = 44100; 
-  const length = Math.ceil(maxDuration * sampleRate);
-  const offlineCtx = new OfflineAudioContext(2, length, sampleRate);
+  return { decoded, duration };
+};
 
-  // Create Master Gain
+// Renders the given tracks through their chains and the master bus.
+// Every render covers the same span, so separate renders line up sample for sample.
+// With a `click` tempo the metronome is mixed into the master bus as well.
+const renderTracks = async (
+  decoded: DecodedTrack[],
+  span: TimeRange,
+  masterVolume: number,
+  limiter: LimiterSettings,
+  sampleRate: number,
+  channels: number,
+  click: TempoSettings | null = null,
+): Promise<AudioBuffer> => {
+  const length = Math.max(1, Math.ceil((span.end - span.start) * sampleRate));
+
+  // The compressor's pre-delay (constant on every track) and the look-ahead
+  // limiter delay the output, so render that much longer and cut it off the
+  // front afterwards to keep the mix sample-aligned
+  const dynamicsLatency = getDynamicsLatency(sampleRate);
+  const limiterLatency = limiter.enabled ? getLimiterLatency(sampleRate) : 0;
+  // A mono context folds the stereo master down to (L + R) / 2
+  let offlineCtx = new OfflineAudioContext(channels, length + dynamicsLatency + limiterLatency, sampleRate);
+
+  // The gate and limiter run in AudioWorklets, which have to be loaded per context.
+  // Without them there's no limiter in the graph and less to compensate, so
+  // the render starts over at the shorter length (the length is fixed per context).
+  const hasWorklets = await loadWorklets(offlineCtx);
+  const latency = dynamicsLatency + (hasWorklets ? limiterLatency : 0);
+  if (latency !== dynamicsLatency + limiterLatency) {
+    offlineCtx = new OfflineAudioContext(channels, length + latency, sampleRate);
+  }
+
+  // Create Master Gain -> Limiter
   const masterGainNode = offlineCtx.createGain();
   masterGainNode.gain.value = masterVolume;
-  masterGainNode.connect(offlineCtx.destination);
-
-  // 3. Schedule Sources
-  buffers.forEach(({ buffer, volume }) => {
-    const source = offlineCtx.createBufferSource();
-    source.buffer = buffer;
-    
-    const trackGain = offlineCtx.createGain();
-    trackGain.gain.value = volume;
-
-    source.connect(trackGain);
-    trackGain.connect(masterGainNode);
-    
-    source.start(0);
+  const limiterStage = createLimiterStage(offlineCtx, limiter);
+  masterGainNode.connect(limiterStage.input);
+  limiterStage.output.connect(offlineCtx.destination);
+
+  decoded.forEach(({ buffer, track }) => {
+    // Same fader/pan chain the live graph in TrackRow uses
+    const chain = createTrackChain(offlineCtx, track);
+    chain.output.connect(masterGainNode);
+    chain.scheduleAutomation(track, span.start, 0, true);
+    scheduleClips(offlineCtx, buffer, getTrackClips(track, buffer.duration), chain.input, span.start);
   });
+  // The click skips the track chains, so it's held back by their pre-delay to line up
+  if (click) scheduleClicks(offlineCtx, click, masterGainNode, span.start, dynamicsLatency / sampleRate, span.end);
 
-  // 4. Render
-  const renderedBuffer = await offlineCtx.startRendering();
+  return trimLeadingSamples(await offlineCtx.startRendering(), latency);
+};
 
-  // 5. Convert to format
-  if (format === 'mp3') {
-    return await audioBufferToMp3(renderedBuffer);
-  } else {
-    return audioBufferToWav(renderedBuffer);
+// Renders straight at the rate the file is written at, so nothing is resampled afterwards
+const getRenderSampleRate = (format: ExportFormat, settings: ExportSettings) =>
+  format === 'mp3' ? getMp3SampleRate(settings.sampleRate) : settings.sampleRate;
+
+// `startTime` is where the buffer begins on the timeline, for the WAV time
+// reference; `markers` are already relative to the start of the buffer
+const encodeBuffer = async (
+  buffer: AudioBuffer,
+  format: ExportFormat,
+  settings: ExportSettings,
+  metadata: ExportMetadata = createDefaultMetadata(),
+  startTime: number = 0,
+  markers: Marker[] = [],
+  onProgress?: (progress: number) => void,
+): Promise<Blob> => {
+  switch (format) {
+    case 'mp3': {
+      const mp3 = await audioBufferToMp3(buffer, { ...getMp3Options(settings), onProgress });
+      const tag = createId3Tag(metadata, getChapters(markers, buffer.duration));
+      return tag ? new Blob([tag, mp3], { type: mp3.type }) : mp3;
+    }
+    case 'flac':
+      return await audioBufferToFlac(buffer, {
+        bitDepth: getFlacBitDepth(settings),
+        compressionLevel: settings.flacCompression,
+        dither: settings.dither,
+        tags: getVorbisComments(metadata),
+        picture: metadata.cover && createFlacPicture(metadata.cover),
+      });
+    default: {
+      const chunks: Uint8Array[] = [];
+      if (metadata.writeBext) {
+        chunks.push(createBextChunk(metadata, {
+          sampleRate: buffer.sampleRate,
+          bitDepth: settings.bitDepth,
+          channels: buffer.numberOfChannels,
+          timeReference: Math.round(startTime * buffer.sampleRate),
+        }));
+      }
+      const info = createInfoChunk(metadata);
+      if (info) chunks.push(info);
+      chunks.push(...createCueChunks(markers, buffer.sampleRate));
+      return audioBufferToWav(buffer, settings.bitDepth, settings.dither, chunks);
+    }
+  }
+};
+
+export const bounceTracks = async (
+  tracks: AudioTrack[],
+  masterVolume: number = 1.0,
+  format: ExportFormat = 'wav',
+  limiter: LimiterSettings = createDefaultLimiter(),
+  loudnessTarget: LoudnessTarget | null = null,
+  settings: ExportSettings = createDefaultExportSettings(),
+  range: TimeRange | null = null,
+  metadata: ExportMetadata = createDefaultMetadata(),
+  markers: Marker[] = [],
+  click: TempoSettings | null = null, // Metronome to mix in, off unless asked for
+  onEncodeProgress?: (progress: number) => void, // 0 to 1, MP3 only
+): Promise<BounceResult> => {
+  const activeTracks = tracks.filter(t => !t.isMuted);
+  if (activeTracks.length === 0) {
+    throw new Error("No tracks to export (or all are muted).");
   }
-};
\ No newline at end of file
+
+  // 1. Decode and determine max duration
+  const { decoded, duration } = await decodeTracks(activeTracks);
+
+  // 2. Render the session (or just the export range)
+  const span = getExportSpan(duration, range, settings);
+  const renderedBuffer = await renderTracks(
+    decoded, span, masterVolume, limiter, getRenderSampleRate(format, settings), settings.channels, click,
+  );
+
+  // 3. Normalize to the loudness target (before encoding, so both formats get it)
+  const loudness = loudnessTarget ? normalizeLoudness(renderedBuffer, loudnessTarget) : null;
+
+  // 4. Convert to format
+  const blob = await encodeBuffer(
+    renderedBuffer, format, settings, metadata, span.start, getMarkersInSpan(markers, span), onEncodeProgress,
+  );
+
+  return { blob, loudness };
+};
+
+// Renders every audible track on its own (fader, pan, automation and inserts
+// applied, master fader included) and zips the files. The master limiter and
+// loudness normalization are left out: they react to the whole mix, so the
+// stems would no longer add up to it. All stems share the same start and length.
+export const bounceStems = async (
+  tracks: AudioTrack[],
+  masterVolume: number = 1.0,
+  format: ExportFormat = 'wav',
+  settings: ExportSettings = createDefaultExportSettings(),
+  range: TimeRange | null = null,
+  onProgress?: (stems: StemProgress[]) => void,
+): Promise<Blob> => {
+  const { decoded: all, duration } = await decodeTracks(tracks.filter(t => !t.isMuted));
+  // Tracks whose clips were all deleted would only give silent files
+  const decoded = all.filter(({ track, buffer }) => getTrackClips(track, buffer.duration).length > 0);
+  if (decoded.length === 0) {
+    throw new Error("No stems to export (or all tracks are muted or empty).");
+  }
+
+  // File names come from the track names; duplicates get a number
+  const usedNames = new Set<string>();
+  const fileNames = decoded.map(({ track }) => {
+    const base = sanitizeFileName(track.name.trim()) || 'Track';
+    let name = `${base}.${format}`;
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+      name = `${base} (${n}).${format}`;
+    }
+    usedNames.add(name.toLowerCase());
+    return name;
+  });
+
+  const progress: StemProgress[] = decoded.map(({ track }) => ({ name: track.name, status: 'pending' }));
+  const setStatus = (index: number, status: StemStatus) => {
+    progress[index] = { ...progress[index], status };
+    onProgress?.([...progress]);
+  };
+  onProgress?.([...progress]);
+
+  const span = getExportSpan(duration, range, settings);
+
+  // One stem at a time keeps memory at a single render
+  const entries: ZipEntry[] = [];
+  const bypassLimiter = { ...createDefaultLimiter(), enabled: false };
+  for (let i = 0; i < decoded.length; i++) {
+    setStatus(i, 'rendering');
+    const rendered = await renderTracks(
+      [decoded[i]], span, masterVolume, bypassLimiter, getRenderSampleRate(format, settings), settings.channels,
+    );
+    setStatus(i, 'encoding');
+    entries.push({ name: fileNames[i], data: await encodeBuffer(rendered, format, settings) });
+    setStatus(i, 'done');
+  }
+
+  return await createZip(entries);
+};
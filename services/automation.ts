@@ -0,0 +1,120 @@
+import { AutomationCurve, AutomationLane, AutomationParam, AutomationPoint } from '../types';
+
+export const AUTOMATION_RANGES: Record<AutomationParam, { min: number; max: number }> = {
+  volume: { min: 0, max: 1 },
+  pan: { min: -1, max: 1 },
+};
+
+export const AUTOMATION_CURVES: AutomationCurve[] = ['linear', 'smooth', 'step'];
+
+// Curved segments (and non-linear value mappings such as the pan law) are
+// approximated with this many linear ramps per segment
+const SEGMENT_STEPS = 16;
+
+// Writes closer together than this replace each other instead of piling up
+const WRITE_RESOLUTION = 0.02;
+
+export const createAutomationLane = (): AutomationLane => ({ mode: 'off', points: [] });
+
+export const createTrackAutomation = (): Record<AutomationParam, AutomationLane> => ({
+  volume: createAutomationLane(),
+  pan: createAutomationLane(),
+});
+
+// Whether an envelope should drive its control. Live playback follows it
+// only in read mode; the bounce uses any envelope that isn't switched off.
+export const isLaneActive = (lane: AutomationLane, forExport: boolean = false) => {
+  if (lane.points.length === 0) return false;
+  return forExport ? lane.mode !== 'off' : lane.mode === 'read';
+};
+
+const shapeSegment = (curve: AutomationCurve, x: number) => {
+  if (curve === 'step') return 0;
+  if (curve === 'smooth') return (1 - Math.cos(Math.PI * x)) / 2;
+  return x;
+};
+
+export const getEnvelopeValue = (points: AutomationPoint[], time: number, fallback: number): number => {
+  if (points.length === 0) return fallback;
+  if (time <= points[0].time) return points[0].value;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (time < b.time) {
+      const x = b.time > a.time ? (time - a.time) / (b.time - a.time) : 1;
+      return a.value + (b.value - a.value) * shapeSegment(a.curve, x);
+    }
+  }
+  return points[points.length - 1].value;
+};
+
+export const addAutomationPoint = (points: AutomationPoint[], point: AutomationPoint): AutomationPoint[] => {
+  const next = points.filter(p => Math.abs(p.time - point.time) >= WRITE_RESOLUTION);
+  next.push(point);
+  return next.sort((a, b) => a.time - b.time);
+};
+
+export const updateAutomationPoint = (
+  points: AutomationPoint[],
+  index: number,
+  changes: Partial<AutomationPoint>
+): AutomationPoint[] => {
+  return points
+    .map((p, i) => i === index ? { ...p, ...changes } : p)
+    .sort((a, b) => a.time - b.time);
+};
+
+export const removeAutomationPoint = (points: AutomationPoint[], index: number): AutomationPoint[] => {
+  return points.filter((_, i) => i !== index);
+};
+
+// Schedules an envelope on an AudioParam with setValueAtTime and
+// linearRampToValueAtTime, starting at timeline `position` (= context time
+// `when`). `toParam` maps envelope values onto the param, e.g. pan position
+// to a channel gain; pass `isLinear: false` when that mapping is curved so
+// plain linear segments get subdivided too. A loop pass stops at `end` and
+// is `append`ed to the pass before it instead of replacing it.
+export const scheduleEnvelope = (
+  param: AudioParam,
+  points: AutomationPoint[],
+  position: number,
+  when: number,
+  toParam: (value: number) => number = v => v,
+  isLinear: boolean = true,
+  end: number = Infinity,
+  append: boolean = false
+) => {
+  if (points.length === 0) return;
+
+  if (!append) param.cancelScheduledValues(0);
+  param.setValueAtTime(toParam(getEnvelopeValue(points, position, points[0].value)), when);
+
+  const toContextTime = (time: number) => when + (time - position);
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (b.time <= position) continue;
+    if (a.time >= end) return;
+
+    if (a.curve === 'step') {
+      if (b.time >= end) return;
+      param.setValueAtTime(toParam(b.value), toContextTime(b.time));
+      continue;
+    }
+
+    const steps = a.curve === 'linear' && isLinear ? 1 : SEGMENT_STEPS;
+    for (let s = 1; s <= steps; s++) {
+      const time = a.time + (b.time - a.time) * (s / steps);
+      if (time <= position) continue;
+      if (time >= end) {
+        // The pass ends mid-segment: land on the envelope value at the end
+        param.linearRampToValueAtTime(toParam(getEnvelopeValue(points, end, a.value)), toContextTime(end));
+        return;
+      }
+      const value = a.value + (b.value - a.value) * shapeSegment(a.curve, s / steps);
+      param.linearRampToValueAtTime(toParam(value), toContextTime(time));
+    }
+  }
+};
@@ -0,0 +1,132 @@
+import { createManifest, ProjectManifest, ProjectSession, restoreSession } from './project';
+
+// Background persistence of the current session in IndexedDB, so a refresh
+// or crash doesn't lose the mix. The session is stored as the same manifest
+// the project bundles use; the audio files go into their own store, keyed by
+// track id, and are only written once per track.
+const DB_NAME = 'online-tracks-bouncer';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const FILE_STORE = 'files';
+const SESSION_KEY = 'current';
+
+export interface AutosaveRecord {
+  manifest: ProjectManifest;
+  playhead: number; // Seconds
+}
+
+export interface RestoredSession extends ProjectSession {
+  playhead: number;
+  savedAt: Date;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+        if (!db.objectStoreNames.contains(FILE_STORE)) db.createObjectStore(FILE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again after a failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Track ids whose audio is already in the file store
+const storedFiles = new Set<string>();
+
+export const saveAutosave = async (session: ProjectSession, playhead: number): Promise<void> => {
+  const db = await openDb();
+  const manifest = createManifest(session, track => track.id);
+  const trackIds = new Set(session.tracks.map(t => t.id));
+
+  // Audio goes in once per track: stems are large, while the settings change constantly
+  const newTracks = session.tracks.filter(t => !storedFiles.has(t.id));
+  if (newTracks.length > 0) {
+    const fileTx = db.transaction(FILE_STORE, 'readwrite');
+    newTracks.forEach(track => fileTx.objectStore(FILE_STORE).put(track.file, track.id));
+    await transactionDone(fileTx);
+    newTracks.forEach(track => storedFiles.add(track.id));
+  }
+
+  const tx = db.transaction([SESSION_STORE, FILE_STORE], 'readwrite');
+  const record: AutosaveRecord = { manifest, playhead };
+  tx.objectStore(SESSION_STORE).put(record, SESSION_KEY);
+
+  // Drop audio of removed tracks
+  const files = tx.objectStore(FILE_STORE);
+  const keysRequest = files.getAllKeys();
+  keysRequest.onsuccess = () => {
+    keysRequest.result.forEach(key => {
+      if (!trackIds.has(String(key))) {
+        files.delete(key);
+        storedFiles.delete(String(key));
+      }
+    });
+  };
+  await transactionDone(tx);
+};
+
+const readRecord = async (db: IDBDatabase): Promise<AutosaveRecord | null> => {
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  const record = await promisify<AutosaveRecord | undefined>(tx.objectStore(SESSION_STORE).get(SESSION_KEY));
+  return record && record.manifest.tracks.length > 0 ? record : null;
+};
+
+// What the restore prompt shows, without loading any audio
+export const peekAutosave = async (): Promise<{ savedAt: Date; trackCount: number } | null> => {
+  const record = await readRecord(await openDb());
+  return record ? { savedAt: new Date(record.manifest.savedAt), trackCount: record.manifest.tracks.length } : null;
+};
+
+// The stored session, or null if there is nothing worth restoring
+export const restoreAutosave = async (): Promise<RestoredSession | null> => {
+  const db = await openDb();
+  const record = await readRecord(db);
+  if (!record) return null;
+
+  const tx = db.transaction(FILE_STORE, 'readonly');
+  const files = new Map<string, Blob>();
+  await Promise.all(record.manifest.tracks.map(async track => {
+    const file = await promisify<Blob | undefined>(tx.objectStore(FILE_STORE).get(track.file.path));
+    if (file) files.set(track.file.path, file);
+  }));
+
+  const session = restoreSession(record.manifest, path => files.get(path));
+  session.tracks.forEach(track => storedFiles.add(track.id));
+  return { ...session, playhead: record.playhead, savedAt: new Date(record.manifest.savedAt) };
+};
+
+export const clearAutosave = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSION_STORE, FILE_STORE], 'readwrite');
+  tx.objectStore(SESSION_STORE).clear();
+  tx.objectStore(FILE_STORE).clear();
+  await transactionDone(tx);
+  storedFiles.clear();
+};
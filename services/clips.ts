@@ -0,0 +1,247 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AudioClip, AudioTrack } from '../types';
+import { applyClipFades, getClipFadeGain, resolveFades } from './fades';
+
+// Clips are non-destructive windows into a track's source buffer:
+// `offset` is where the window starts inside the file, `start` is where it
+// sits on the timeline. Every helper here returns new objects so the results
+// can go straight into React state.
+
+// Shortest clip a trim is allowed to leave behind (seconds)
+export const MIN_CLIP_DURATION = 0.05;
+
+export const createClip = (start: number, offset: number, duration: number): AudioClip => ({
+  id: uuidv4(),
+  start,
+  offset,
+  duration,
+  fadeIn: 0,
+  fadeOut: 0,
+  fadeInCurve: 'linear',
+  fadeOutCurve: 'linear',
+});
+
+export const getClipEnd = (clip: AudioClip) => clip.start + clip.duration;
+
+// Tracks start with an empty clip list until their buffer is decoded.
+// Until then the whole file counts as one clip at t=0.
+export const getTrackClips = (track: AudioTrack, bufferDuration: number = track.duration): AudioClip[] => {
+  if (track.clips.length > 0) return track.clips;
+  if (bufferDuration <= 0) return [];
+  return [{ ...createClip(0, 0, bufferDuration), id: `${track.id}-full` }];
+};
+
+export const getTrackEnd = (track: AudioTrack): number => {
+  return getTrackClips(track).reduce((end, clip) => Math.max(end, getClipEnd(clip)), 0);
+};
+
+export const findClipAt = (clips: AudioClip[], time: number): AudioClip | undefined => {
+  // Last one wins so the clip drawn on top is the one that gets picked
+  for (let i = clips.length - 1; i >= 0; i--) {
+    const clip = clips[i];
+    if (time >= clip.start && time < getClipEnd(clip)) return clip;
+  }
+  return undefined;
+};
+
+export const splitClip = (clips: AudioClip[], clipId: string, time: number): AudioClip[] => {
+  const clip = clips.find(c => c.id === clipId);
+  if (!clip) return clips;
+
+  const splitPoint = time - clip.start;
+  if (splitPoint < MIN_CLIP_DURATION || clip.duration - splitPoint < MIN_CLIP_DURATION) return clips;
+
+  // The outer fades stay with the outer halves
+  const left: AudioClip = { ...clip, duration: splitPoint, fadeOut: 0 };
+  const right: AudioClip = {
+    ...createClip(time, clip.offset + splitPoint, clip.duration - splitPoint),
+    fadeOut: clip.fadeOut,
+    fadeOutCurve: clip.fadeOutCurve,
+  };
+
+  return clips.flatMap(c => c.id === clipId ? [left, right] : [c]);
+};
+
+export const duplicateClip = (clips: AudioClip[], clipId: string): AudioClip[] => {
+  const clip = clips.find(c => c.id === clipId);
+  if (!clip) return clips;
+  return [...clips, { ...clip, id: uuidv4(), start: getClipEnd(clip) }];
+};
+
+export const removeClip = (clips: AudioClip[], clipId: string): AudioClip[] => {
+  return clips.filter(c => c.id !== clipId);
+};
+
+export const moveClip = (clip: AudioClip, start: number): AudioClip => ({
+  ...clip,
+  start: Math.max(0, start),
+});
+
+// Moves the left edge, keeping the audio under the clip in place on the timeline
+export const trimClipStart = (clip: AudioClip, start: number): AudioClip => {
+  const end = getClipEnd(clip);
+  // Can't reveal audio before the beginning of the file or past t=0
+  const earliest = Math.max(0, clip.start - clip.offset);
+  const clamped = Math.max(earliest, Math.min(start, end - MIN_CLIP_DURATION));
+  const delta = clamped - clip.start;
+  return {
+    ...clip,
+    start: clamped,
+    offset: clip.offset + delta,
+    duration: clip.duration - delta,
+  };
+};
+
+export const trimClipEnd = (clip: AudioClip, end: number, bufferDuration: number): AudioClip => {
+  const maxDuration = bufferDuration - clip.offset;
+  const duration = Math.max(MIN_CLIP_DURATION, Math.min(end - clip.start, maxDuration));
+  return { ...clip, duration };
+};
+
+export const setClipFade = (clip: AudioClip, edge: 'in' | 'out', length: number): AudioClip => {
+  const other = edge === 'in' ? clip.fadeOut : clip.fadeIn;
+  const clamped = Math.max(0, Math.min(length, clip.duration - other));
+  return edge === 'in' ? { ...clip, fadeIn: clamped } : { ...clip, fadeOut: clamped };
+};
+
+// Schedules every clip audible from `position` (timeline seconds) onwards.
+// `when` is the context time that corresponds to `position`; everything
+// stops at `end`, which is how a loop pass gets cut off at the loop end.
+// Each clip gets its own gain node carrying its fades (and any crossfade).
+// Used for both the live graph and the offline bounce.
+export const scheduleClips = (
+  ctx: BaseAudioContext,
+  buffer: AudioBuffer,
+  clips: AudioClip[],
+  destination: AudioNode,
+  position: number = 0,
+  when: number = 0,
+  end: number = Infinity
+): AudioBufferSourceNode[] => {
+  const sources: AudioBufferSourceNode[] = [];
+  const fades = resolveFades(clips);
+
+  clips.forEach(clip => {
+    if (getClipEnd(clip) <= position || clip.start >= end) return;
+
+    const skip = Math.max(0, position - clip.start);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+
+    const clipGain = ctx.createGain();
+    applyClipFades(clipGain.gain, clip, fades.get(clip.id)!, position, when);
+    source.connect(clipGain);
+    clipGain.connect(destination);
+    // Tear down the clip gain together with its source
+    source.onended = () => clipGain.disconnect();
+
+    const length = Math.min(clip.duration, end - clip.start) - skip;
+    source.start(when + Math.max(0, clip.start - position), clip.offset + skip, length);
+    sources.push(source);
+  });
+
+  return sources;
+};
+
+// Peak pyramid of a buffer: level k holds the max |sample| over all channels
+// of each block of PEAK_BLOCK * 2^k samples. Built once per buffer, so a redraw at any zoom
+// reads a few blocks per point instead of rescanning the audio.
+const PEAK_BLOCK = 64;
+const peakLevels = new WeakMap<AudioBuffer, Float32Array[]>();
+
+const getPeakLevels = (buffer: AudioBuffer): Float32Array[] => {
+  let levels = peakLevels.get(buffer);
+  if (levels) return levels;
+
+  const base = new Float32Array(Math.ceil(buffer.length / PEAK_BLOCK));
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let s = 0; s < data.length; s++) {
+      const val = Math.abs(data[s]);
+      const block = Math.floor(s / PEAK_BLOCK);
+      if (val > base[block]) base[block] = val;
+    }
+  }
+  levels = [base];
+  for (let level = base; level.length > 1;) {
+    const next = new Float32Array(Math.ceil(level.length / 2));
+    for (let i = 0; i < next.length; i++) {
+      next[i] = Math.max(level[2 * i], level[2 * i + 1] ?? 0);
+    }
+    levels.push(next);
+    level = next;
+  }
+  peakLevels.set(buffer, levels);
+  return levels;
+};
+
+// Exact max |sample| over [s0, s1): the largest aligned blocks that fit,
+// single samples only at the ragged edges
+const getRangePeak = (channels: Float32Array[], levels: Float32Array[], s0: number, s1: number) => {
+  let max = 0;
+  let s = Math.max(0, s0);
+  const end = Math.min(s1, channels[0].length);
+  while (s < end) {
+    let level = -1;
+    while (level + 1 < levels.length) {
+      const size = PEAK_BLOCK << (level + 1);
+      if (s % size !== 0 || s + size > end) break;
+      level++;
+    }
+    if (level < 0) {
+      channels.forEach(data => {
+        const val = Math.abs(data[s]);
+        if (val > max) max = val;
+      });
+      s++;
+    } else {
+      const size = PEAK_BLOCK << level;
+      const val = levels[level][s / size];
+      if (val > max) max = val;
+      s += size;
+    }
+  }
+  return max;
+};
+
+// Peak envelope of the clips laid out on the timeline, one value per point.
+// Feeds both the TrackRow waveform and the GlobalTimeline summary. Every
+// sample counts, so short transients show at any zoom.
+export const computeClipPeaks = (
+  buffer: AudioBuffer,
+  clips: AudioClip[],
+  timelineDuration: number,
+  points: number
+): Float32Array => {
+  const peaks = new Float32Array(points);
+  if (timelineDuration <= 0 || points <= 0) return peaks;
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const levels = getPeakLevels(buffer);
+  const sampleRate = buffer.sampleRate;
+  const secondsPerPoint = timelineDuration / points;
+  const fades = resolveFades(clips);
+
+  clips.forEach(clip => {
+    const end = getClipEnd(clip);
+    const clipFades = fades.get(clip.id)!;
+    const first = Math.max(0, Math.floor(clip.start / secondsPerPoint));
+    const last = Math.min(points, Math.ceil(end / secondsPerPoint));
+
+    for (let i = first; i < last; i++) {
+      const t0 = Math.max(i * secondsPerPoint, clip.start);
+      const t1 = Math.min((i + 1) * secondsPerPoint, end);
+      if (t1 <= t0) continue;
+
+      const s0 = Math.floor((t0 - clip.start + clip.offset) * sampleRate);
+      // At least one sample, so zoomed far in every point still has a value
+      const s1 = Math.max(s0 + 1, Math.floor((t1 - clip.start + clip.offset) * sampleRate));
+      const max = getRangePeak(channels, levels, s0, s1);
+      // Draw the fades into the waveform
+      const gain = getClipFadeGain(clip, clipFades, (t0 + t1) / 2);
+      peaks[i] = Math.max(peaks[i], max * gain);
+    }
+  });
+
+  return peaks;
+};
@@ -0,0 +1,191 @@
+import { TrackDynamics } from '../types';
+import { hasWorklets } from './worklets';
+
+export const createDefaultDynamics = (): TrackDynamics => ({
+  gate: {
+    enabled: false,
+    threshold: -50,
+    attack: 0.002,
+    hold: 0.05,
+    release: 0.1,
+    range: -80,
+  },
+  compressor: {
+    enabled: false,
+    threshold: -18,
+    ratio: 4,
+    attack: 0.01,
+    release: 0.2,
+    knee: 6,
+    makeup: 0,
+  },
+});
+
+export interface GainReduction {
+  gate: number; // dB, 0 = no reduction
+  compressor: number; // dB, 0 = no reduction
+}
+
+export interface DynamicsStage {
+  input: AudioNode;
+  output: AudioNode;
+  // False when the worklet module isn't loaded and the gate is left out
+  hasGate: boolean;
+  update: (dynamics: TrackDynamics) => void;
+  getReduction: () => GainReduction;
+  disconnect: () => void;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const gainToDb = (gain: number) => 20 * Math.log10(gain);
+
+// DynamicsCompressorNode looks ahead by a fixed 6 ms (the spec's pre-delay).
+// Its output is delayed by that whether or not it's compressing, so the
+// bypass path gets the same delay to keep the track's latency constant.
+const COMPRESSOR_PRE_DELAY = 0.006;
+
+// Latency of the dynamics stage in samples at a given rate
+export const getDynamicsLatency = (sampleRate: number) =>
+  Math.floor(COMPRESSOR_PRE_DELAY * sampleRate);
+
+// DynamicsCompressorNode also adds its own makeup gain, derived from the
+// static curve: (1 / curve(0 dBFS)) ^ 0.6. This mirrors the browser's curve
+// (knee fitted to the ratio by bisection) so the stage can divide it back
+// out and apply only the user's makeup.
+const getBuiltInMakeup = (threshold: number, knee: number, ratio: number) => {
+  const linearThreshold = dbToGain(threshold);
+  const kneeCurve = (x: number, k: number) =>
+    x < linearThreshold ? x : linearThreshold + (1 - Math.exp(-k * (x - linearThreshold))) / k;
+  const slopeAt = (x: number, k: number) => {
+    if (x < linearThreshold) return 1;
+    const x2 = x * 1.001;
+    return (gainToDb(kneeCurve(x2, k)) - gainToDb(kneeCurve(x, k))) / (gainToDb(x2) - gainToDb(x));
+  };
+
+  const slope = 1 / ratio;
+  const kneeThresholdDb = threshold + knee;
+  const kneeThreshold = dbToGain(kneeThresholdDb);
+  let minK = 0.1;
+  let maxK = 10000;
+  let k = 5;
+  for (let i = 0; i < 15; i++) {
+    if (slopeAt(kneeThreshold, k) < slope) maxK = k;
+    else minK = k;
+    k = Math.sqrt(minK * maxK);
+  }
+
+  // Level the curve gives a full-scale input
+  const fullRange = 1 < kneeThreshold
+    ? kneeCurve(1, k)
+    : dbToGain(gainToDb(kneeCurve(kneeThreshold, k)) + slope * (0 - kneeThresholdDb));
+  return Math.pow(1 / fullRange, 0.6);
+};
+
+//   input -> gate (AudioWorklet) -> compressor -> makeup -> output
+//
+// Disabled processors are wired around, like bands in the EQ stage; a
+// bypassed compressor is replaced by a matching delay. The gate needs the
+// worklet module (see loadWorklets); without it the gate is left out,
+// hasGate is false and the editor shows it as unavailable.
+export const createDynamicsStage = (ctx: BaseAudioContext, dynamics: TrackDynamics): DynamicsStage => {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+
+  const gate = hasWorklets(ctx)
+    ? new AudioWorkletNode(ctx, 'noise-gate', { outputChannelCount: [2] })
+    : null;
+  const compressor = ctx.createDynamicsCompressor();
+  const makeup = ctx.createGain();
+  compressor.connect(makeup);
+  const bypassDelay = ctx.createDelay(COMPRESSOR_PRE_DELAY * 2);
+  bypassDelay.delayTime.value = getDynamicsLatency(ctx.sampleRate) / ctx.sampleRate;
+
+  let gateReduction = 0;
+  if (gate) {
+    gate.port.onmessage = (e) => {
+      gateReduction = e.data.reduction;
+    };
+  }
+
+  const configure = (next: TrackDynamics, smooth: boolean) => {
+    const now = ctx.currentTime;
+    const set = (param: AudioParam, value: number) => {
+      if (smooth) {
+        param.setTargetAtTime(value, now, 0.02);
+      } else {
+        param.value = value;
+      }
+    };
+
+    const { gate: gateSettings, compressor: comp } = next;
+    if (gate) {
+      set(gate.parameters.get('threshold')!, gateSettings.threshold);
+      set(gate.parameters.get('attack')!, gateSettings.attack);
+      set(gate.parameters.get('hold')!, gateSettings.hold);
+      set(gate.parameters.get('release')!, gateSettings.release);
+      set(gate.parameters.get('range')!, gateSettings.range);
+    }
+    set(compressor.threshold, comp.threshold);
+    set(compressor.ratio, comp.ratio);
+    set(compressor.attack, comp.attack);
+    set(compressor.release, comp.release);
+    set(compressor.knee, comp.knee);
+    set(makeup.gain, dbToGain(comp.makeup) / getBuiltInMakeup(comp.threshold, comp.knee, comp.ratio));
+  };
+
+  let routing = '';
+
+  const wire = (next: TrackDynamics) => {
+    const useGate = !!gate && next.gate.enabled;
+    const useCompressor = next.compressor.enabled;
+    const nextRouting = `${useGate}-${useCompressor}`;
+    if (nextRouting === routing) return;
+    routing = nextRouting;
+
+    input.disconnect();
+    gate?.disconnect();
+    makeup.disconnect();
+    bypassDelay.disconnect();
+
+    let node: AudioNode = input;
+    if (useGate) {
+      node.connect(gate!);
+      node = gate!;
+    }
+    if (useCompressor) {
+      node.connect(compressor);
+      node = makeup;
+    } else {
+      node.connect(bypassDelay);
+      node = bypassDelay;
+    }
+    node.connect(output);
+
+    if (!useGate) gateReduction = 0;
+  };
+
+  configure(dynamics, false);
+  wire(dynamics);
+
+  const update = (next: TrackDynamics) => {
+    configure(next, true);
+    wire(next);
+  };
+
+  const getReduction = (): GainReduction => ({
+    gate: routing.startsWith('true') ? gateReduction : 0,
+    compressor: routing.endsWith('true') ? compressor.reduction : 0,
+  });
+
+  const disconnect = () => {
+    input.disconnect();
+    gate?.disconnect();
+    if (gate) gate.port.onmessage = null;
+    compressor.disconnect();
+    makeup.disconnect();
+    bypassDelay.disconnect();
+    output.disconnect();
+  };
+
+  return { input, output, hasGate: !!gate, update, getReduction, disconnect };
+};
@@ -0,0 +1,131 @@
+import { EqBand, EqBandType, TrackEq } from '../types';
+
+export const EQ_FREQ_MIN = 20;
+export const EQ_FREQ_MAX = 20000;
+export const EQ_GAIN_RANGE = 18; // +/- dB
+
+export const EQ_BAND_LABELS: Record<EqBandType, string> = {
+  highpass: 'HP',
+  lowshelf: 'LS',
+  peaking: 'PK',
+  highshelf: 'HS',
+  lowpass: 'LP',
+};
+
+// Band types whose gain parameter does something
+export const hasGain = (type: EqBandType) => type !== 'highpass' && type !== 'lowpass';
+
+// Everything starts flat: the filters are off and the bell/shelf gains are 0 dB
+export const createDefaultEq = (): TrackEq => ({
+  bypass: false,
+  bands: [
+    { type: 'highpass', enabled: false, frequency: 80, gain: 0, q: 0.71 },
+    { type: 'lowshelf', enabled: true, frequency: 120, gain: 0, q: 0.71 },
+    { type: 'peaking', enabled: true, frequency: 300, gain: 0, q: 1 },
+    { type: 'peaking', enabled: true, frequency: 1000, gain: 0, q: 1 },
+    { type: 'peaking', enabled: true, frequency: 4000, gain: 0, q: 1 },
+    { type: 'highshelf', enabled: true, frequency: 8000, gain: 0, q: 0.71 },
+    { type: 'lowpass', enabled: false, frequency: 18000, gain: 0, q: 0.71 },
+  ],
+});
+
+const isBandActive = (eq: TrackEq, band: EqBand) => !eq.bypass && band.enabled;
+
+const configureFilter = (filter: BiquadFilterNode, band: EqBand) => {
+  filter.type = band.type;
+  filter.frequency.value = band.frequency;
+  filter.gain.value = band.gain;
+  filter.Q.value = band.q;
+};
+
+export interface EqStage {
+  input: AudioNode;
+  output: AudioNode;
+  update: (eq: TrackEq) => void;
+  disconnect: () => void;
+}
+
+// One BiquadFilterNode per band, with disabled bands (or the whole EQ when
+// bypassed) wired around instead of being set to a "neutral" value, since
+// high/low-pass filters have no truly transparent setting.
+export const createEqStage = (ctx: BaseAudioContext, eq: TrackEq): EqStage => {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+  const filters = eq.bands.map(band => {
+    const filter = ctx.createBiquadFilter();
+    configureFilter(filter, band);
+    return filter;
+  });
+
+  let routing = '';
+
+  const wire = (next: TrackEq) => {
+    // Only rewire when the set of active bands changes
+    const nextRouting = next.bands.map(band => isBandActive(next, band) ? '1' : '0').join('');
+    if (nextRouting === routing) return;
+    routing = nextRouting;
+
+    input.disconnect();
+    filters.forEach(filter => filter.disconnect());
+
+    let node: AudioNode = input;
+    filters.forEach((filter, i) => {
+      if (!isBandActive(next, next.bands[i])) return;
+      node.connect(filter);
+      node = filter;
+    });
+    node.connect(output);
+  };
+
+  wire(eq);
+
+  const update = (next: TrackEq) => {
+    const now = ctx.currentTime;
+    next.bands.forEach((band, i) => {
+      const filter = filters[i];
+      if (!filter) return;
+      filter.type = band.type;
+      filter.frequency.setTargetAtTime(band.frequency, now, 0.02);
+      filter.gain.setTargetAtTime(band.gain, now, 0.02);
+      filter.Q.setTargetAtTime(band.q, now, 0.02);
+    });
+    wire(next);
+  };
+
+  const disconnect = () => {
+    input.disconnect();
+    filters.forEach(filter => filter.disconnect());
+    output.disconnect();
+  };
+
+  return { input, output, update, disconnect };
+};
+
+// A throwaway context just for building filters to query; never rendered
+let responseContext: OfflineAudioContext | null = null;
+
+// Combined magnitude response of the EQ in dB at each frequency,
+// computed with BiquadFilterNode.getFrequencyResponse.
+export const getEqResponse = (eq: TrackEq, frequencies: Float32Array): Float32Array => {
+  const total = new Float32Array(frequencies.length);
+  if (eq.bypass) return total;
+
+  if (!responseContext) {
+    responseContext = new OfflineAudioContext(1, 128, 48000);
+  }
+
+  const magnitude = new Float32Array(frequencies.length);
+  const phase = new Float32Array(frequencies.length);
+
+  eq.bands.forEach(band => {
+    if (!band.enabled) return;
+    const filter = responseContext!.createBiquadFilter();
+    configureFilter(filter, band);
+    filter.getFrequencyResponse(frequencies, magnitude, phase);
+    for (let i = 0; i < frequencies.length; i++) {
+      total[i] += 20 * Math.log10(Math.max(magnitude[i], 1e-6));
+    }
+  });
+
+  return total;
+};
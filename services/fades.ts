@@ -0,0 +1,142 @@
+import { AudioClip, FadeCurve } from '../types';
+
+export const FADE_CURVES: FadeCurve[] = ['linear', 'exponential', 's-curve', 'equal-power'];
+
+export const FADE_CURVE_LABELS: Record<FadeCurve, string> = {
+  'linear': 'Linear',
+  'exponential': 'Exponential',
+  's-curve': 'S-Curve',
+  'equal-power': 'Equal Power',
+};
+
+// Resolution of the curves handed to setValueCurveAtTime
+const CURVE_POINTS = 256;
+
+// Gain of a fade-in at x (0..1). Fade-outs use the mirror image, gain(1 - x).
+export const getFadeGain = (curve: FadeCurve, x: number): number => {
+  const t = Math.max(0, Math.min(1, x));
+  switch (curve) {
+    case 'exponential':
+      // Slow start, fast finish; reaches exactly 0 and 1 at the ends
+      return (Math.pow(2, 10 * t) - 1) / 1023;
+    case 's-curve':
+      return (1 - Math.cos(Math.PI * t)) / 2;
+    case 'equal-power':
+      return Math.sin((Math.PI / 2) * t);
+    default:
+      return t;
+  }
+};
+
+export const getNextFadeCurve = (curve: FadeCurve): FadeCurve => {
+  return FADE_CURVES[(FADE_CURVES.indexOf(curve) + 1) % FADE_CURVES.length];
+};
+
+export interface ResolvedFades {
+  fadeIn: number;
+  fadeOut: number;
+  fadeInCurve: FadeCurve;
+  fadeOutCurve: FadeCurve;
+}
+
+// The fades that actually get rendered for each clip: the user's fades,
+// stretched into equal-power crossfades wherever clips on the same track
+// overlap, and clamped so fade-in and fade-out never cross.
+export const resolveFades = (clips: AudioClip[]): Map<string, ResolvedFades> => {
+  const result = new Map<string, ResolvedFades>();
+  clips.forEach(clip => result.set(clip.id, {
+    fadeIn: clip.fadeIn,
+    fadeOut: clip.fadeOut,
+    fadeInCurve: clip.fadeInCurve,
+    fadeOutCurve: clip.fadeOutCurve,
+  }));
+
+  clips.forEach(a => {
+    const aEnd = a.start + a.duration;
+    clips.forEach(b => {
+      if (a.id === b.id || b.start < a.start || b.start >= aEnd) return;
+      // Equal starts: the clip later in the list is the one fading in
+      if (b.start === a.start && clips.indexOf(b) < clips.indexOf(a)) return;
+
+      const bEnd = b.start + b.duration;
+      const overlap = Math.min(aEnd, bEnd) - b.start;
+
+      const fadingIn = result.get(b.id)!;
+      if (overlap > fadingIn.fadeIn) {
+        fadingIn.fadeIn = overlap;
+        fadingIn.fadeInCurve = 'equal-power';
+      }
+
+      // Only fade A out when it ends inside B; otherwise B sits on top of A
+      const fadingOut = result.get(a.id)!;
+      if (aEnd <= bEnd && overlap > fadingOut.fadeOut) {
+        fadingOut.fadeOut = overlap;
+        fadingOut.fadeOutCurve = 'equal-power';
+      }
+    });
+  });
+
+  clips.forEach(clip => {
+    const fades = result.get(clip.id)!;
+    fades.fadeIn = Math.max(0, Math.min(fades.fadeIn, clip.duration));
+    fades.fadeOut = Math.max(0, Math.min(fades.fadeOut, clip.duration - fades.fadeIn));
+  });
+
+  return result;
+};
+
+// Fade gain of a clip at a timeline position (1 outside its fades)
+export const getClipFadeGain = (clip: AudioClip, fades: ResolvedFades, time: number): number => {
+  const intoClip = time - clip.start;
+  const untilEnd = clip.start + clip.duration - time;
+  let gain = 1;
+  if (fades.fadeIn > 0 && intoClip < fades.fadeIn) {
+    gain *= getFadeGain(fades.fadeInCurve, intoClip / fades.fadeIn);
+  }
+  if (fades.fadeOut > 0 && untilEnd < fades.fadeOut) {
+    gain *= getFadeGain(fades.fadeOutCurve, untilEnd / fades.fadeOut);
+  }
+  return gain;
+};
+
+// Schedules one fade covering timeline [start, start + length] on a gain param.
+// `when` is the context time of timeline `position`; a fade already in
+// progress at `position` starts from the matching point on its curve so
+// live playback and the bounce produce the same gain at every instant.
+const scheduleFade = (
+  param: AudioParam,
+  curve: FadeCurve,
+  direction: 'in' | 'out',
+  start: number,
+  length: number,
+  position: number,
+  when: number
+) => {
+  const end = start + length;
+  const from = Math.max(start, position);
+  if (length <= 0 || end - from < 0.001) return;
+
+  const x0 = (from - start) / length;
+  const values = new Float32Array(CURVE_POINTS);
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    const x = x0 + (1 - x0) * (i / (CURVE_POINTS - 1));
+    values[i] = getFadeGain(curve, direction === 'in' ? x : 1 - x);
+  }
+  param.setValueCurveAtTime(values, when + (from - position), end - from);
+};
+
+export const applyClipFades = (
+  param: AudioParam,
+  clip: AudioClip,
+  fades: ResolvedFades,
+  position: number,
+  when: number
+) => {
+  scheduleFade(param, fades.fadeInCurve, 'in', clip.start, fades.fadeIn, position, when);
+  // When the fades meet, start the fade-out a hair later so the two curves
+  // never share a boundary event (setValueCurveAtTime rejects overlaps)
+  const fadeInEnd = clip.start + fades.fadeIn;
+  const fadeOutStart = Math.max(clip.start + clip.duration - fades.fadeOut, fades.fadeIn > 0 ? fadeInEnd + 0.0001 : 0);
+  const clipEnd = clip.start + clip.duration;
+  scheduleFade(param, fades.fadeOutCurve, 'out', fadeOutStart, clipEnd - fadeOutStart, position, when);
+};
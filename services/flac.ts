@@ -0,0 +1,516 @@
+import { quantizeSamples } from './dither';
+import { DitherMode } from '../types';
+
+export const FLAC_COMPRESSION_LEVELS = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+export const FLAC_DEFAULT_COMPRESSION = 5;
+
+export interface FlacOptions {
+  bitDepth: 16 | 24;
+  compressionLevel: number; // 0 (fastest) to 8 (smallest)
+  dither: DitherMode;
+  tags: Record<string, string>; // Vorbis comments, e.g. { TITLE: 'Song' }
+  picture?: Uint8Array | null; // PICTURE block body (cover art)
+}
+
+// --- WORKER CODE AS STRING ---
+// A Blob worker, so the encoding runs off the main thread without any
+// bundler setup. The encoder writes STREAMINFO and VORBIS_COMMENT blocks
+// (plus PICTURE for cover art), then fixed-size frames. Each subframe picks
+// the smallest of constant, verbatim, fixed and LPC prediction, with
+// partitioned Rice coding of the residual. Higher levels search more (LPC order, stereo
+// decorrelation, partition order); the output is always lossless.
+const FLAC_WORKER_CODE = `
+// level: [block size, max LPC order, max partition order, stereo search, exhaustive LPC order search]
+const LEVELS = [
+  [1152, 0, 3, false, false],
+  [1152, 0, 3, true, false],
+  [1152, 0, 4, true, false],
+  [4096, 6, 4, false, false],
+  [4096, 8, 4, true, false],
+  [4096, 8, 5, true, false],
+  [4096, 8, 6, true, false],
+  [4096, 12, 6, true, false],
+  [4096, 12, 6, true, true],
+];
+
+const SAMPLE_RATE_CODES = { 88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6, 24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11 };
+const SAMPLE_SIZE_CODES = { 8: 1, 12: 2, 16: 4, 20: 5, 24: 6 };
+const BLOCK_SIZE_CODES = { 192: 1, 576: 2, 1152: 3, 2304: 4, 4608: 5, 256: 8, 512: 9, 1024: 10, 2048: 11, 4096: 12, 8192: 13, 16384: 14, 32768: 15 };
+
+const CRC8 = new Uint8Array(256);
+const CRC16 = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let c = i;
+  for (let k = 0; k < 8; k++) c = c & 0x80 ? ((c << 1) ^ 0x07) & 0xFF : (c << 1) & 0xFF;
+  CRC8[i] = c;
+  let d = i << 8;
+  for (let k = 0; k < 8; k++) d = d & 0x8000 ? ((d << 1) ^ 0x8005) & 0xFFFF : (d << 1) & 0xFFFF;
+  CRC16[i] = d;
+}
+
+class BitWriter {
+  constructor(size) {
+    this.bytes = new Uint8Array(size);
+    this.length = 0; // Whole bytes written
+    this.current = 0;
+    this.bits = 0; // Bits pending in current
+  }
+  pushByte(byte) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+  // Unsigned value of up to 32 bits
+  write(value, n) {
+    while (n > 0) {
+      const take = Math.min(n, 8 - this.bits);
+      n -= take;
+      this.current = (this.current << take) | ((value >>> n) & ((1 << take) - 1));
+      this.bits += take;
+      if (this.bits === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.bits = 0;
+      }
+    }
+  }
+  writeSigned(value, n) {
+    this.write(n === 32 ? value >>> 0 : value & ((1 << n) - 1), n);
+  }
+  writeZeros(n) {
+    while (n > 24) {
+      this.write(0, 24);
+      n -= 24;
+    }
+    this.write(0, n);
+  }
+  writeRice(u, k) {
+    const q = Math.floor(u / (1 << k));
+    if (q + 1 + k <= 31) {
+      this.write((1 << k) | (u & ((1 << k) - 1)), q + 1 + k);
+    } else {
+      this.writeZeros(q);
+      this.write(1, 1);
+      this.write(u & ((1 << k) - 1), k);
+    }
+  }
+  align() {
+    if (this.bits > 0) this.write(0, 8 - this.bits);
+  }
+}
+
+const writeUtf8Number = (writer, n) => {
+  if (n < 0x80) {
+    writer.write(n, 8);
+    return;
+  }
+  const bytes = n < 0x800 ? 2 : n < 0x10000 ? 3 : n < 0x200000 ? 4 : n < 0x4000000 ? 5 : 6;
+  writer.write(((0xFF << (8 - bytes)) & 0xFF) | Math.floor(n / 2 ** (6 * (bytes - 1))), 8);
+  for (let i = bytes - 2; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(n / 2 ** (6 * i)) & 0x3F), 8);
+  }
+};
+
+// --- Residual coding ---
+
+const zigzag = (r) => r >= 0 ? r * 2 : -r * 2 - 1;
+
+// Picks the partition order and Rice parameters from estimated sizes
+const planRice = (residual, blockSize, order, maxPartitionOrder, bps) => {
+  const method = bps > 16 ? 1 : 0;
+  const paramBits = method === 1 ? 5 : 4;
+  const maxParam = method === 1 ? 30 : 14;
+
+  // Prefix sums of the mapped residual over the whole block (samples before the warm-up count as 0)
+  const prefix = new Float64Array(blockSize + 1);
+  for (let i = 0; i < residual.length; i++) {
+    prefix[order + i + 1] = prefix[order + i] + zigzag(residual[i]);
+  }
+
+  let best = null;
+  for (let po = 0; po <= maxPartitionOrder; po++) {
+    if (blockSize % (1 << po) !== 0 || (blockSize >> po) <= order) break;
+    const partitionSize = blockSize >> po;
+    const params = [];
+    let bits = 6; // Method + partition order
+    for (let p = 0; p < (1 << po); p++) {
+      const start = p === 0 ? order : p * partitionSize;
+      const end = (p + 1) * partitionSize;
+      const count = end - start;
+      const sum = prefix[end] - prefix[start];
+      let bestK = 0;
+      let bestBits = Infinity;
+      for (let k = 0; k <= maxParam; k++) {
+        const scale = 2 ** k;
+        const estimate = count * (k + 1) + sum / scale - (k > 0 ? count * (1 - 1 / scale) / 2 : 0);
+        if (estimate < bestBits) {
+          bestBits = estimate;
+          bestK = k;
+        } else if (k > 0) {
+          break;
+        }
+      }
+      params.push(bestK);
+      bits += paramBits + bestBits;
+    }
+    if (!best || bits < best.bits) best = { bits, partitionOrder: po, params, method };
+  }
+  return best;
+};
+
+const writeResidual = (writer, sub, blockSize) => {
+  const { residual, order, rice } = sub;
+  writer.write(rice.method, 2);
+  writer.write(rice.partitionOrder, 4);
+  const partitionSize = blockSize >> rice.partitionOrder;
+  let index = 0;
+  rice.params.forEach((k, p) => {
+    writer.write(k, rice.method === 1 ? 5 : 4);
+    const count = p === 0 ? partitionSize - order : partitionSize;
+    for (let i = 0; i < count; i++) {
+      writer.writeRice(zigzag(residual[index++]), k);
+    }
+  });
+};
+
+// --- Prediction ---
+
+const fixedResidual = (x, order) => {
+  const n = x.length;
+  const residual = new Float64Array(n - order);
+  for (let i = order; i < n; i++) {
+    let r;
+    switch (order) {
+      case 0: r = x[i]; break;
+      case 1: r = x[i] - x[i - 1]; break;
+      case 2: r = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+      case 3: r = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+      default: r = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+    }
+    residual[i - order] = r;
+  }
+  return residual;
+};
+
+// LPC coefficients for every order up to maxOrder (Welch window, Levinson-Durbin)
+const computeLpc = (x, maxOrder) => {
+  const n = x.length;
+  const windowed = new Float64Array(n);
+  const half = (n - 1) / 2;
+  for (let i = 0; i < n; i++) {
+    const w = (i - half) / (half + 1);
+    windowed[i] = x[i] * (1 - w * w);
+  }
+
+  const r = new Float64Array(maxOrder + 1);
+  for (let lag = 0; lag <= maxOrder; lag++) {
+    let sum = 0;
+    for (let i = lag; i < n; i++) sum += windowed[i] * windowed[i - lag];
+    r[lag] = sum;
+  }
+  if (r[0] === 0) return [];
+
+  const results = [];
+  let a = [];
+  let err = r[0];
+  for (let i = 0; i < maxOrder; i++) {
+    let acc = r[i + 1];
+    for (let j = 0; j < i; j++) acc -= a[j] * r[i - j];
+    const k = acc / err;
+    const next = new Array(i + 1);
+    next[i] = k;
+    for (let j = 0; j < i; j++) next[j] = a[j] - k * a[i - 1 - j];
+    a = next;
+    err *= 1 - k * k;
+    if (!(err > 0)) break;
+    results.push({ coefs: a.slice(), err });
+  }
+  return results;
+};
+
+const quantizeLpc = (coefs, precision) => {
+  let cmax = 0;
+  coefs.forEach(c => { cmax = Math.max(cmax, Math.abs(c)); });
+  if (cmax === 0) return null;
+  const shift = Math.min(15, precision - 1 - (Math.floor(Math.log2(cmax)) + 1));
+  if (shift < 0) return null;
+
+  const qmax = (1 << (precision - 1)) - 1;
+  const quantized = new Array(coefs.length);
+  let error = 0;
+  for (let i = 0; i < coefs.length; i++) {
+    error += coefs[i] * (1 << shift);
+    const q = Math.max(-qmax - 1, Math.min(qmax, Math.round(error)));
+    quantized[i] = q;
+    error -= q;
+  }
+  return { quantized, shift };
+};
+
+const lpcResidual = (x, quantized, shift) => {
+  const n = x.length;
+  const order = quantized.length;
+  const divisor = 2 ** shift;
+  const residual = new Float64Array(n - order);
+  for (let i = order; i < n; i++) {
+    let sum = 0;
+    for (let j = 0; j < order; j++) sum += quantized[j] * x[i - 1 - j];
+    residual[i - order] = x[i] - Math.floor(sum / divisor);
+  }
+  return residual;
+};
+
+// Smallest subframe for one channel of one block
+const planSubframe = (x, bps, level) => {
+  const [, maxLpcOrder, maxPartitionOrder, , exhaustive] = level;
+  const n = x.length;
+  const header = 8;
+
+  let constant = true;
+  for (let i = 1; i < n && constant; i++) constant = x[i] === x[0];
+  if (constant) return { type: 'constant', bits: header + bps };
+
+  let best = { type: 'verbatim', bits: header + n * bps };
+
+  for (let order = 0; order <= 4 && order < n; order++) {
+    const residual = fixedResidual(x, order);
+    const rice = planRice(residual, n, order, maxPartitionOrder, bps);
+    if (!rice) continue;
+    const bits = header + order * bps + rice.bits;
+    if (bits < best.bits) best = { type: 'fixed', order, residual, rice, bits };
+  }
+
+  if (maxLpcOrder > 0 && n > maxLpcOrder * 2) {
+    const precision = bps <= 16 ? 14 : 15;
+    const candidates = computeLpc(x, maxLpcOrder);
+    let orders;
+    if (exhaustive) {
+      orders = candidates.map((_, i) => i);
+    } else {
+      // Pick the order with the smallest estimated size
+      let bestEstimate = Infinity;
+      let bestIndex = -1;
+      candidates.forEach((c, i) => {
+        const order = i + 1;
+        const estimate = (n - order) * Math.max(0, 0.5 * Math.log2(c.err / n)) + order * (precision + bps);
+        if (estimate < bestEstimate) {
+          bestEstimate = estimate;
+          bestIndex = i;
+        }
+      });
+      orders = bestIndex >= 0 ? [bestIndex] : [];
+    }
+
+    orders.forEach(i => {
+      const q = quantizeLpc(candidates[i].coefs, precision);
+      if (!q) return;
+      const order = i + 1;
+      const residual = lpcResidual(x, q.quantized, q.shift);
+      const rice = planRice(residual, n, order, maxPartitionOrder, bps);
+      if (!rice) return;
+      const bits = header + order * bps + 4 + 5 + order * precision + rice.bits;
+      if (bits < best.bits) best = { type: 'lpc', order, residual, rice, bits, precision, ...q };
+    });
+  }
+
+  return best;
+};
+
+const writeSubframe = (writer, sub, x, bps) => {
+  writer.write(0, 1);
+  switch (sub.type) {
+    case 'constant':
+      writer.write(0, 6);
+      writer.write(0, 1);
+      writer.writeSigned(x[0], bps);
+      break;
+    case 'verbatim':
+      writer.write(1, 6);
+      writer.write(0, 1);
+      for (let i = 0; i < x.length; i++) writer.writeSigned(x[i], bps);
+      break;
+    case 'fixed':
+      writer.write(8 | sub.order, 6);
+      writer.write(0, 1);
+      for (let i = 0; i < sub.order; i++) writer.writeSigned(x[i], bps);
+      writeResidual(writer, sub, x.length);
+      break;
+    case 'lpc':
+      writer.write(32 | (sub.order - 1), 6);
+      writer.write(0, 1);
+      for (let i = 0; i < sub.order; i++) writer.writeSigned(x[i], bps);
+      writer.write(sub.precision - 1, 4);
+      writer.writeSigned(sub.shift, 5);
+      sub.quantized.forEach(q => writer.writeSigned(q, sub.precision));
+      writeResidual(writer, sub, x.length);
+      break;
+  }
+};
+
+const encodeFlac = (channels, sampleRate, bitDepth, compressionLevel, tags, picture) => {
+  const level = LEVELS[Math.max(0, Math.min(8, compressionLevel))];
+  const [blockSize, , , stereoSearch] = level;
+  const numChannels = channels.length;
+  const totalSamples = channels[0].length;
+  const writer = new BitWriter(Math.max(1024, Math.ceil(totalSamples * numChannels * bitDepth / 16)));
+
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+
+  for (let frame = 0, start = 0; start < totalSamples; frame++, start += blockSize) {
+    const n = Math.min(blockSize, totalSamples - start);
+    const blocks = channels.map(c => c.subarray(start, start + n));
+
+    // Channel layout: independent, or one of the stereo decorrelations
+    let assignment = numChannels - 1;
+    let subframes = blocks.map(x => ({ x, bps: bitDepth }));
+    let plans = subframes.map(s => planSubframe(s.x, s.bps, level));
+    if (numChannels === 2 && stereoSearch) {
+      const [left, right] = blocks;
+      const mid = new Int32Array(n);
+      const side = new Int32Array(n);
+      for (let i = 0; i < n; i++) {
+        mid[i] = (left[i] + right[i]) >> 1;
+        side[i] = left[i] - right[i];
+      }
+      const midPlan = planSubframe(mid, bitDepth, level);
+      const sidePlan = planSubframe(side, bitDepth + 1, level);
+      const [leftPlan, rightPlan] = plans;
+      const options = [
+        [1, leftPlan.bits + rightPlan.bits, [{ x: left, bps: bitDepth }, { x: right, bps: bitDepth }], [leftPlan, rightPlan]],
+        [8, leftPlan.bits + sidePlan.bits, [{ x: left, bps: bitDepth }, { x: side, bps: bitDepth + 1 }], [leftPlan, sidePlan]],
+        [9, sidePlan.bits + rightPlan.bits, [{ x: side, bps: bitDepth + 1 }, { x: right, bps: bitDepth }], [sidePlan, rightPlan]],
+        [10, midPlan.bits + sidePlan.bits, [{ x: mid, bps: bitDepth }, { x: side, bps: bitDepth + 1 }], [midPlan, sidePlan]],
+      ];
+      const best = options.reduce((a, b) => b[1] < a[1] ? b : a);
+      assignment = best[0];
+      subframes = best[2];
+      plans = best[3];
+    }
+
+    // Frame header
+    const frameStart = writer.length;
+    writer.write(0x3FFE, 14); // Sync
+    writer.write(0, 1);
+    writer.write(0, 1); // Fixed block size
+    const blockCode = n === blockSize ? BLOCK_SIZE_CODES[n] : 7;
+    writer.write(blockCode, 4);
+    writer.write(SAMPLE_RATE_CODES[sampleRate] || 0, 4);
+    writer.write(assignment, 4);
+    writer.write(SAMPLE_SIZE_CODES[bitDepth], 3);
+    writer.write(0, 1);
+    writeUtf8Number(writer, frame);
+    if (blockCode === 7) writer.write(n - 1, 16);
+    let crc8 = 0;
+    for (let i = frameStart; i < writer.length; i++) crc8 = CRC8[crc8 ^ writer.bytes[i]];
+    writer.write(crc8, 8);
+
+    subframes.forEach((s, i) => writeSubframe(writer, plans[i], s.x, s.bps));
+
+    writer.align();
+    let crc16 = 0;
+    for (let i = frameStart; i < writer.length; i++) crc16 = ((crc16 << 8) & 0xFFFF) ^ CRC16[(crc16 >> 8) ^ writer.bytes[i]];
+    writer.write(crc16, 16);
+
+    const frameSize = writer.length - frameStart;
+    minFrameSize = Math.min(minFrameSize, frameSize);
+    maxFrameSize = Math.max(maxFrameSize, frameSize);
+  }
+
+  // Stream header, written last so it can hold the frame sizes
+  const header = new BitWriter(1024);
+  header.write(0x664C6143, 32); // "fLaC"
+
+  header.write(0, 1);
+  header.write(0, 7); // STREAMINFO
+  header.write(34, 24);
+  header.write(blockSize, 16);
+  header.write(blockSize, 16);
+  header.write(totalSamples > 0 ? minFrameSize : 0, 24);
+  header.write(maxFrameSize, 24);
+  header.write(sampleRate, 20);
+  header.write(numChannels - 1, 3);
+  header.write(bitDepth - 1, 5);
+  header.write(Math.floor(totalSamples / 2 ** 32), 4);
+  header.write(totalSamples >>> 0, 32);
+  header.writeZeros(128); // MD5 unknown
+
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode('Online Tracks Bouncer');
+  const comments = tags.map(([key, value]) => encoder.encode(key + '=' + value));
+  const commentLength = 8 + vendor.length + comments.reduce((sum, c) => sum + 4 + c.length, 0);
+  const writeLE32 = (value) => {
+    for (let i = 0; i < 4; i++) header.write((value >>> (8 * i)) & 0xFF, 8);
+  };
+  header.write(picture ? 0 : 1, 1); // Last metadata block, unless the picture follows
+  header.write(4, 7); // VORBIS_COMMENT
+  header.write(commentLength, 24);
+  writeLE32(vendor.length);
+  vendor.forEach(b => header.write(b, 8));
+  writeLE32(comments.length);
+  comments.forEach(c => {
+    writeLE32(c.length);
+    c.forEach(b => header.write(b, 8));
+  });
+
+  const parts = [header.bytes.subarray(0, header.length)];
+  if (picture) {
+    // Last block, type 6 (PICTURE), 24-bit length
+    parts.push(new Uint8Array([0x86, (picture.length >> 16) & 0xFF, (picture.length >> 8) & 0xFF, picture.length & 0xFF]), picture);
+  }
+  parts.push(writer.bytes.subarray(0, writer.length));
+  return parts;
+};
+
+self.onmessage = function(e) {
+  const { channels, sampleRate, bitDepth, compressionLevel, tags, picture } = e.data;
+  try {
+    const parts = encodeFlac(channels, sampleRate, bitDepth, compressionLevel, tags, picture);
+    self.postMessage({ blob: new Blob(parts, { type: 'audio/flac' }) });
+  } catch (err) {
+    self.postMessage({ error: err.message });
+  }
+};
+`;
+
+export const audioBufferToFlac = async (buffer: AudioBuffer, options: FlacOptions): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const blob = new Blob([FLAC_WORKER_CODE], { type: 'application/javascript' });
+    const workerUrl = URL.createObjectURL(blob);
+    const worker = new Worker(workerUrl);
+
+    // Integer samples per channel, dithered like a WAV of the same depth
+    const channels: Int32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      channels.push(quantizeSamples(buffer.getChannelData(c), 1, options.bitDepth, options.dither));
+    }
+
+    worker.onmessage = (e) => {
+      if (e.data.error) {
+        reject(new Error(e.data.error));
+      } else if (e.data.blob) {
+        resolve(e.data.blob);
+      }
+      worker.terminate();
+      URL.revokeObjectURL(workerUrl);
+    };
+
+    worker.onerror = (e) => {
+      reject(new Error("Worker error: " + e.message));
+      worker.terminate();
+      URL.revokeObjectURL(workerUrl);
+    };
+
+    worker.postMessage({
+      channels,
+      sampleRate: buffer.sampleRate,
+      bitDepth: options.bitDepth,
+      compressionLevel: options.compressionLevel,
+      tags: Object.entries(options.tags).filter(([, value]) => value !== ''),
+      picture: options.picture ?? null,
+    }, channels.map(c => c.buffer));
+  });
+};
@@ -0,0 +1,171 @@
+import { AudioTrack } from '../types';
+
+// Undo/redo for mix edits. Every change to the track list goes through a
+// command that knows how to apply and revert itself, so the history only
+// stores what changed instead of whole copies of the session.
+
+// Fields that belong to the loaded audio, not to the mix
+type RuntimeTrackFields = 'wavesurfer' | 'audioBuffer';
+type TrackSettings = Partial<Omit<AudioTrack, RuntimeTrackFields>>;
+
+interface TrackChange {
+  trackId: string;
+  before: TrackSettings;
+  after: TrackSettings;
+}
+
+export type HistoryCommand = { label: string; time: number } & (
+  | { type: 'edit'; changes: TrackChange[]; mergeKey?: string }
+  | { type: 'add'; tracks: AudioTrack[] }
+  | { type: 'remove'; track: AudioTrack; index: number }
+  | { type: 'move'; from: number; to: number }
+  | { type: 'clear'; tracks: AudioTrack[] }
+);
+
+export interface HistoryState {
+  past: HistoryCommand[]; // Oldest first
+  future: HistoryCommand[]; // Next redo first
+}
+
+export const HISTORY_LIMIT = 200;
+// Edits with the same merge key this close together (e.g. one slider drag) become one entry
+const MERGE_WINDOW_MS = 1000;
+
+export const createHistory = (): HistoryState => ({ past: [], future: [] });
+
+const RUNTIME_FIELDS = new Set<string>(['wavesurfer', 'audioBuffer']);
+
+// A command for whatever differs between two versions of the same track list.
+// Returns null when nothing changed.
+export const createEditCommand = (
+  label: string,
+  prev: AudioTrack[],
+  next: AudioTrack[],
+  mergeKey?: string,
+): HistoryCommand | null => {
+  const changes: TrackChange[] = [];
+  next.forEach(track => {
+    const old = prev.find(t => t.id === track.id);
+    if (!old || old === track) return;
+    const before: Record<string, unknown> = {};
+    const after: Record<string, unknown> = {};
+    (Object.keys(track) as (keyof AudioTrack)[]).forEach(key => {
+      if (RUNTIME_FIELDS.has(key) || old[key] === track[key]) return;
+      before[key] = old[key];
+      after[key] = track[key];
+    });
+    if (Object.keys(after).length > 0) {
+      changes.push({ trackId: track.id, before, after });
+    }
+  });
+  return changes.length > 0 ? { type: 'edit', label, time: Date.now(), changes, mergeKey } : null;
+};
+
+export const createAddCommand = (tracks: AudioTrack[]): HistoryCommand => ({
+  type: 'add',
+  label: tracks.length === 1 ? `Add ${tracks[0].name}` : `Add ${tracks.length} tracks`,
+  time: Date.now(),
+  tracks,
+});
+
+export const createRemoveCommand = (track: AudioTrack, index: number): HistoryCommand => ({
+  type: 'remove',
+  label: `Remove ${track.name}`,
+  time: Date.now(),
+  // The row (and its waveform) is destroyed on removal; undo builds a new one
+  track: { ...track, wavesurfer: undefined },
+  index,
+});
+
+export const createMoveCommand = (track: AudioTrack, from: number, to: number): HistoryCommand => ({
+  type: 'move',
+  label: `Move ${track.name}`,
+  time: Date.now(),
+  from,
+  to,
+});
+
+export const createClearCommand = (tracks: AudioTrack[]): HistoryCommand => ({
+  type: 'clear',
+  label: 'Clear tracks',
+  time: Date.now(),
+  // Like removal, undo builds new rows for them
+  tracks: tracks.map(track => ({ ...track, wavesurfer: undefined })),
+});
+
+const patchTracks = (tracks: AudioTrack[], changes: TrackChange[], side: 'before' | 'after') =>
+  tracks.map(track => {
+    const change = changes.find(c => c.trackId === track.id);
+    return change ? { ...track, ...change[side] } : track;
+  });
+
+const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from < 0 || from >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+};
+
+export const applyCommand = (tracks: AudioTrack[], command: HistoryCommand): AudioTrack[] => {
+  switch (command.type) {
+    case 'edit':
+      return patchTracks(tracks, command.changes, 'after');
+    case 'add':
+      return [...tracks, ...command.tracks];
+    case 'remove':
+      return tracks.filter(t => t.id !== command.track.id);
+    case 'move':
+      return moveItem(tracks, command.from, command.to);
+    case 'clear':
+      return [];
+  }
+};
+
+export const revertCommand = (tracks: AudioTrack[], command: HistoryCommand): AudioTrack[] => {
+  switch (command.type) {
+    case 'edit':
+      return patchTracks(tracks, command.changes, 'before');
+    case 'add': {
+      const added = new Set(command.tracks.map(t => t.id));
+      return tracks.filter(t => !added.has(t.id));
+    }
+    case 'remove': {
+      const next = [...tracks];
+      next.splice(Math.min(command.index, next.length), 0, command.track);
+      return next;
+    }
+    case 'move':
+      return moveItem(tracks, command.to, command.from);
+    case 'clear':
+      return [...command.tracks, ...tracks];
+  }
+};
+
+// Adds a command, merging it into the previous one when it continues the same gesture
+export const pushCommand = (history: HistoryState, command: HistoryCommand): HistoryState => {
+  const last = history.past[history.past.length - 1];
+  if (
+    command.type === 'edit' && last?.type === 'edit' &&
+    command.mergeKey && command.mergeKey === last.mergeKey &&
+    command.time - last.time < MERGE_WINDOW_MS
+  ) {
+    // Keep the oldest "before" and the newest "after" per track
+    const changes = [...last.changes];
+    command.changes.forEach(change => {
+      const index = changes.findIndex(c => c.trackId === change.trackId);
+      if (index < 0) {
+        changes.push(change);
+      } else {
+        changes[index] = {
+          trackId: change.trackId,
+          before: { ...change.before, ...changes[index].before },
+          after: { ...changes[index].after, ...change.after },
+        };
+      }
+    });
+    return { past: [...history.past.slice(0, -1), { ...last, changes, time: command.time }], future: [] };
+  }
+
+  return { past: [...history.past, command].slice(-HISTORY_LIMIT), future: [] };
+};
@@ -0,0 +1,88 @@
+import { LimiterSettings } from '../types';
+import { hasWorklets } from './worklets';
+
+// How far ahead the limiter looks for peaks. The master output is delayed by
+// this (plus a few samples for true-peak detection), which the bounce
+// compensates for.
+export const LIMITER_LOOKAHEAD = 0.005;
+// Samples the true-peak interpolator looks ahead; matches TP_HALF_TAPS in the worklet
+const TRUE_PEAK_DELAY = 6;
+
+export const LIMITER_CEILING_MIN = -24;
+
+export const createDefaultLimiter = (): LimiterSettings => ({
+  enabled: false,
+  ceiling: -1,
+  release: 0.1,
+});
+
+// Latency of the limiter in samples at a given rate
+export const getLimiterLatency = (sampleRate: number) =>
+  Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate)) + TRUE_PEAK_DELAY;
+
+export interface LimiterStage {
+  input: AudioNode;
+  output: AudioNode;
+  update: (settings: LimiterSettings) => void;
+  // Current gain reduction in dB (0 = none)
+  getReduction: () => number;
+  disconnect: () => void;
+}
+
+// Master-bus limiter, wired around when switched off. Like the gate it needs
+// the worklet module; without it the stage is a plain pass-through.
+export const createLimiterStage = (ctx: BaseAudioContext, settings: LimiterSettings): LimiterStage => {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+
+  const limiter = hasWorklets(ctx)
+    ? new AudioWorkletNode(ctx, 'brickwall-limiter', {
+      outputChannelCount: [2],
+      processorOptions: { lookahead: LIMITER_LOOKAHEAD },
+    })
+    : null;
+
+  let reduction = 0;
+  if (limiter) {
+    limiter.port.onmessage = (e) => {
+      reduction = e.data.reduction;
+    };
+    limiter.connect(output);
+  }
+
+  let isActive: boolean | null = null;
+
+  const update = (next: LimiterSettings) => {
+    if (limiter) {
+      limiter.parameters.get('ceiling')!.value = next.ceiling;
+      limiter.parameters.get('release')!.value = next.release;
+    }
+
+    const nextActive = !!limiter && next.enabled;
+    if (nextActive === isActive) return;
+    isActive = nextActive;
+
+    input.disconnect();
+    input.connect(nextActive ? limiter! : output);
+    if (!nextActive) reduction = 0;
+  };
+
+  update(settings);
+
+  const disconnect = () => {
+    input.disconnect();
+    if (limiter) {
+      limiter.disconnect();
+      limiter.port.onmessage = null;
+    }
+    output.disconnect();
+  };
+
+  return {
+    input,
+    output,
+    update,
+    getReduction: () => isActive ? reduction : 0,
+    disconnect,
+  };
+};
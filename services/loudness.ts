@@ -0,0 +1,226 @@
+import { LoudnessMeasurement, LoudnessReport, LoudnessTarget } from '../types';
+
+// Delivery targets offered in the export menu
+export const LOUDNESS_PRESETS: { label: string; target: LoudnessTarget }[] = [
+  { label: 'Streaming (-14 LUFS)', target: { integrated: -14, truePeak: -1 } },
+  { label: 'Podcast (-16 LUFS)', target: { integrated: -16, truePeak: -1 } },
+  { label: 'Broadcast EBU R128 (-23 LUFS)', target: { integrated: -23, truePeak: -1 } },
+];
+
+// --- ITU-R BS.1770 K-weighting ---
+// Coefficients are derived for the actual sample rate from the analog
+// prototypes (same approach as libebur128), so the meter isn't limited to 48 kHz.
+
+export interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export const getKWeightingFilters = (sampleRate: number): [Biquad, Biquad] => {
+  // Stage 1: high shelf modelling the acoustic effect of the head
+  let f0 = 1681.974450955533;
+  const gainDb = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan(Math.PI * f0 / sampleRate);
+  const vh = Math.pow(10, gainDb / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + vb * k / q + k * k) / a0,
+    b1: 2 * (k * k - vh) / a0,
+    b2: (vh - vb * k / q + k * k) / a0,
+    a1: 2 * (k * k - 1) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  // Stage 2: the RLB high-pass
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highpass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (k * k - 1) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  return [shelf, highpass];
+};
+
+// Runs a channel through both K-weighting stages (direct form I)
+const applyKWeighting = (input: Float32Array, sampleRate: number): Float32Array => {
+  const output = new Float32Array(input.length);
+  output.set(input);
+  getKWeightingFilters(sampleRate).forEach(({ b0, b1, b2, a1, a2 }) => {
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < output.length; i++) {
+      const x = output[i];
+      const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      output[i] = y;
+    }
+  });
+  return output;
+};
+
+export const powerToLufs = (power: number) => power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+
+// Integrated loudness from the mean-square power of 400 ms gating blocks:
+// absolute gate at -70 LUFS, then a relative gate 10 LU below the result.
+export const gateIntegratedLoudness = (blockPowers: number[]): number => {
+  const absoluteGated = blockPowers.filter(p => powerToLufs(p) > -70);
+  if (absoluteGated.length === 0) return -Infinity;
+
+  const mean = (powers: number[]) => powers.reduce((sum, p) => sum + p, 0) / powers.length;
+  const relativeGate = powerToLufs(mean(absoluteGated)) - 10;
+  const relativeGated = absoluteGated.filter(p => powerToLufs(p) > relativeGate);
+  return relativeGated.length > 0 ? powerToLufs(mean(relativeGated)) : -Infinity;
+};
+
+// Loudness range (EBU Tech 3342) from short-term (3 s) block powers:
+// the spread between the 10th and 95th percentile after gating.
+export const getLoudnessRange = (shortTermPowers: number[]): number => {
+  const absoluteGated = shortTermPowers.filter(p => powerToLufs(p) > -70);
+  if (absoluteGated.length === 0) return 0;
+
+  const mean = absoluteGated.reduce((sum, p) => sum + p, 0) / absoluteGated.length;
+  const relativeGate = powerToLufs(mean) - 20;
+  const levels = absoluteGated
+    .map(powerToLufs)
+    .filter(l => l > relativeGate)
+    .sort((a, b) => a - b);
+  if (levels.length === 0) return 0;
+
+  const percentile = (q: number) => levels[Math.min(levels.length - 1, Math.round(q * (levels.length - 1)))];
+  return percentile(0.95) - percentile(0.1);
+};
+
+// --- True peak (4x oversampling) ---
+// Same windowed-sinc interpolator as the limiter worklet, so a ceiling set
+// there agrees with what the export measures.
+const TP_HALF_TAPS = 6;
+const TP_PHASES = 4;
+const TP_COEFS = (() => {
+  const sets: number[][] = [];
+  for (let p = 1; p < TP_PHASES; p++) {
+    const frac = p / TP_PHASES;
+    const taps: number[] = [];
+    for (let j = -TP_HALF_TAPS + 1; j <= TP_HALF_TAPS; j++) {
+      const x = j - frac;
+      const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos(Math.PI * x / TP_HALF_TAPS);
+      taps.push(sinc * window);
+    }
+    sets.push(taps);
+  }
+  return sets;
+})();
+
+const getChannelPeaks = (data: Float32Array): { sample: number; true: number } => {
+  let samplePeak = 0;
+  let truePeak = 0;
+  for (let i = 0; i < data.length; i++) {
+    const v = Math.abs(data[i]);
+    if (v > samplePeak) samplePeak = v;
+    // Interpolate between i and i + 1; edges are padded with silence
+    for (let p = 0; p < TP_COEFS.length; p++) {
+      const taps = TP_COEFS[p];
+      let sum = 0;
+      for (let t = 0; t < taps.length; t++) {
+        const index = i + t - TP_HALF_TAPS + 1;
+        if (index >= 0 && index < data.length) sum += taps[t] * data[index];
+      }
+      const interpolated = Math.abs(sum);
+      if (interpolated > truePeak) truePeak = interpolated;
+    }
+  }
+  return { sample: samplePeak, true: Math.max(truePeak, samplePeak) };
+};
+
+const gainToDb = (gain: number) => gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+
+// Integrated loudness (LUFS), true peak (dBTP) and sample peak (dBFS) of a rendered mix
+export const measureLoudness = (buffer: AudioBuffer): LoudnessMeasurement => {
+  const { sampleRate, numberOfChannels } = buffer;
+
+  // Mean-square energy per 100 ms step; a gating block is four steps
+  const stepLength = Math.round(sampleRate * 0.1);
+  const stepCount = Math.floor(buffer.length / stepLength);
+  const stepEnergy = new Float64Array(stepCount);
+
+  let samplePeak = 0;
+  let truePeak = 0;
+
+  for (let c = 0; c < numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    const weighted = applyKWeighting(data, sampleRate);
+    for (let s = 0; s < stepCount; s++) {
+      let sum = 0;
+      const end = (s + 1) * stepLength;
+      for (let i = s * stepLength; i < end; i++) {
+        sum += weighted[i] * weighted[i];
+      }
+      // L/R (and mono) channels all have a weighting of 1.0
+      stepEnergy[s] += sum;
+    }
+
+    const peaks = getChannelPeaks(data);
+    samplePeak = Math.max(samplePeak, peaks.sample);
+    truePeak = Math.max(truePeak, peaks.true);
+  }
+
+  const blockPowers: number[] = [];
+  for (let s = 0; s + 4 <= stepCount; s++) {
+    const energy = stepEnergy[s] + stepEnergy[s + 1] + stepEnergy[s + 2] + stepEnergy[s + 3];
+    blockPowers.push(energy / (4 * stepLength));
+  }
+
+  return {
+    integrated: gateIntegratedLoudness(blockPowers),
+    truePeak: gainToDb(truePeak),
+    samplePeak: gainToDb(samplePeak),
+  };
+};
+
+// Gain (dB) that brings the mix to the target loudness without pushing the
+// true peak over the target's limit. Silent mixes are left alone.
+export const getNormalizationGain = (measured: LoudnessMeasurement, target: LoudnessTarget): number => {
+  if (!isFinite(measured.integrated)) return 0;
+  const gain = target.integrated - measured.integrated;
+  if (isFinite(measured.truePeak) && measured.truePeak + gain > target.truePeak) {
+    return target.truePeak - measured.truePeak;
+  }
+  return gain;
+};
+
+// Measures the buffer, scales it in place and reports both readings.
+// Loudness and peaks scale linearly with gain, so "after" doesn't need a second pass.
+export const normalizeLoudness = (buffer: AudioBuffer, target: LoudnessTarget): LoudnessReport => {
+  const before = measureLoudness(buffer);
+  const gain = getNormalizationGain(before, target);
+
+  const factor = Math.pow(10, gain / 20);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      data[i] *= factor;
+    }
+  }
+
+  return {
+    target,
+    gain,
+    before,
+    after: {
+      integrated: before.integrated + gain,
+      truePeak: before.truePeak + gain,
+      samplePeak: before.samplePeak + gain,
+    },
+  };
+};
@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ExportFormat, ExportMetadata, Marker, TimeRange } from '../types';
+
+// Markers are named points for navigation; a marker with an end is a region
+// (a song in a DJ mix, a chapter in a podcast). The list is kept sorted by
+// start so the number keys and the exported chapters follow the timeline.
+
+// Shortest region a marker edit is allowed to leave behind (seconds)
+export const MIN_REGION = 0.05;
+
+export const createMarker = (name: string, start: number, end: number | null = null): Marker => ({
+  id: uuidv4(),
+  name,
+  start,
+  end,
+});
+
+export const sortMarkers = (markers: Marker[]): Marker[] => [...markers].sort((a, b) => a.start - b.start);
+
+export const isRegion = (marker: Marker): marker is Marker & { end: number } => marker.end !== null;
+
+// "Marker 3" / "Region 2": one past the highest number already in use
+export const getNextMarkerName = (markers: Marker[], region: boolean) => {
+  const prefix = region ? 'Region' : 'Marker';
+  const pattern = new RegExp(`^${prefix} (\\d+)$`);
+  const highest = markers.reduce((max, marker) => {
+    const match = marker.name.match(pattern);
+    return match ? Math.max(max, parseInt(match[1])) : max;
+  }, 0);
+  return `${prefix} ${highest + 1}`;
+};
+
+// Moves one edge (or a whole point marker) and keeps regions at least MIN_REGION long
+export const moveMarkerEdge = (marker: Marker, edge: 'start' | 'end', time: number): Marker => {
+  const t = Math.max(0, time);
+  if (marker.end === null) return { ...marker, start: t };
+  return edge === 'start'
+    ? { ...marker, start: Math.min(t, marker.end - MIN_REGION) }
+    : { ...marker, end: Math.max(t, marker.start + MIN_REGION) };
+};
+
+// The markers that fall inside an export, with times relative to its start.
+// Regions are cut to the span; anything entirely outside is dropped.
+export const getMarkersInSpan = (markers: Marker[], span: TimeRange): Marker[] =>
+  sortMarkers(markers)
+    .filter(marker => marker.start < span.end && (marker.end ?? marker.start) >= span.start)
+    .map(marker => ({
+      ...marker,
+      start: Math.max(0, marker.start - span.start),
+      end: marker.end === null ? null : Math.min(span.end, marker.end) - span.start,
+    }));
+
+export interface Chapter {
+  id: string;
+  name: string;
+  start: number;
+  end: number;
+}
+
+// Back-to-back chapters for players that need an end for every entry: a
+// point marker lasts until the next marker starts (or the file ends).
+export const getChapters = (markers: Marker[], duration: number): Chapter[] => {
+  const sorted = sortMarkers(markers);
+  return sorted.map((marker, i) => ({
+    id: marker.id,
+    name: marker.name,
+    start: marker.start,
+    end: marker.end ?? (i + 1 < sorted.length ? sorted[i + 1].start : duration),
+  }));
+};
+
+// --- CUE sheet ---
+
+// CD frames: 75 per second
+const formatCueTime = (seconds: number) => {
+  const frames = Math.round(seconds * 75);
+  const mm = Math.floor(frames / (75 * 60));
+  const ss = Math.floor(frames / 75) % 60;
+  const ff = frames % 75;
+  return [mm, ss, ff].map(v => String(v).padStart(2, '0')).join(':');
+};
+
+const quote = (text: string) => `"${text.replace(/"/g, "'")}"`;
+
+const CUE_FILE_TYPES: Record<ExportFormat, string> = {
+  wav: 'WAVE',
+  flac: 'WAVE', // Players decode anything that isn't MP3/AIFF as WAVE
+  mp3: 'MP3',
+};
+
+// A CUE sheet that splits the exported file at its markers. `markers` are
+// relative to the start of the file. A CUE sheet has at most 99 tracks.
+export const createCueSheet = (markers: Marker[], fileName: string, format: ExportFormat, metadata: ExportMetadata): string => {
+  const lines: string[] = [];
+  if (metadata.genre.trim()) lines.push(`REM GENRE ${quote(metadata.genre.trim())}`);
+  if (metadata.year.trim()) lines.push(`REM DATE ${metadata.year.trim()}`);
+  if (metadata.comment.trim()) lines.push(`REM COMMENT ${quote(metadata.comment.trim())}`);
+  if (metadata.artist.trim()) lines.push(`PERFORMER ${quote(metadata.artist.trim())}`);
+  if (metadata.title.trim()) lines.push(`TITLE ${quote(metadata.title.trim())}`);
+  lines.push(`FILE ${quote(fileName)} ${CUE_FILE_TYPES[format]}`);
+
+  sortMarkers(markers).slice(0, 99).forEach((marker, i) => {
+    lines.push(`  TRACK ${String(i + 1).padStart(2, '0')} AUDIO`);
+    lines.push(`    TITLE ${quote(marker.name)}`);
+    if (metadata.artist.trim()) lines.push(`    PERFORMER ${quote(metadata.artist.trim())}`);
+    // Audio before the first marker becomes the first track's pregap
+    if (i === 0 && marker.start > 0) lines.push('    INDEX 00 00:00:00');
+    lines.push(`    INDEX 01 ${formatCueTime(marker.start)}`);
+  });
+
+  return lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,306 @@
+import { CoverImage, ExportMetadata, Marker } from '../types';
+import { Chapter, isRegion, sortMarkers } from './markers';
+import { sanitizeFileName } from './zip';
+
+// Tags for exported files: ID3v2.4 for MP3, RIFF LIST/INFO and Broadcast Wave
+// `bext` chunks for WAV, Vorbis comments and a PICTURE block for FLAC.
+// Markers go into MP3 as ID3 chapters and into WAV as cue points.
+
+const APP_NAME = 'Online Tracks Bouncer';
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{title}_{date}_v{n}';
+export const FILE_NAME_TOKENS = ['title', 'artist', 'album', 'year', 'date', 'n'];
+const FALLBACK_FILE_NAME = 'mix_bounce';
+
+// FLAC stores the picture size in 24 bits
+const MAX_COVER_BYTES = 16 * 1024 * 1024 - 1;
+
+export const createDefaultMetadata = (): ExportMetadata => ({
+  title: '',
+  artist: '',
+  album: '',
+  year: '',
+  genre: '',
+  isrc: '',
+  comment: '',
+  cover: null,
+  writeBext: false,
+  originator: '',
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+});
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+// Local date as YYYY-MM-DD
+export const formatDate = (date: Date) => `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+
+// Fills in a template like {title}_{date}_v{n}. An empty field takes the
+// separator in front of it along, so a missing title doesn't leave "_2024-..."
+export const formatFileName = (template: string, metadata: ExportMetadata, version: number, date: Date = new Date()) => {
+  const values: Record<string, string> = {
+    title: metadata.title.trim(),
+    artist: metadata.artist.trim(),
+    album: metadata.album.trim(),
+    year: metadata.year.trim(),
+    date: formatDate(date),
+    n: String(version),
+  };
+  const name = template
+    .replace(/([_\-. ]*)\{(\w+)\}/g, (match, separator: string, key: string) => {
+      if (!(key in values)) return match;
+      return values[key] ? separator + values[key] : '';
+    })
+    .replace(/^[_\-. ]+/, '');
+  return sanitizeFileName(name).trim() || FALLBACK_FILE_NAME;
+};
+
+export const readCoverImage = async (file: File): Promise<CoverImage> => {
+  if (file.type !== 'image/jpeg' && file.type !== 'image/png') {
+    throw new Error("Cover art must be a JPEG or PNG image.");
+  }
+  if (file.size > MAX_COVER_BYTES) {
+    throw new Error("Cover art must be smaller than 16 MB.");
+  }
+  const bitmap = await createImageBitmap(file);
+  const cover = {
+    data: new Uint8Array(await file.arrayBuffer()),
+    mimeType: file.type,
+    width: bitmap.width,
+    height: bitmap.height,
+  };
+  bitmap.close();
+  return cover;
+};
+
+const utf8 = new TextEncoder();
+
+const latin1 = (text: string) => Uint8Array.from(text, char => {
+  const code = char.charCodeAt(0);
+  return code < 0x100 ? code : 0x3F; // '?'
+});
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+// --- ID3v2.4 (MP3) ---
+
+// 28-bit size, 7 bits per byte so no byte looks like an MPEG sync
+const synchsafe = (value: number) =>
+  new Uint8Array([(value >> 21) & 0x7F, (value >> 14) & 0x7F, (value >> 7) & 0x7F, value & 0x7F]);
+
+const id3Frame = (id: string, body: Uint8Array) =>
+  concatBytes([latin1(id), synchsafe(body.length), new Uint8Array(2), body]);
+
+// Encoding byte 3 = UTF-8, new in v2.4
+const id3TextFrame = (id: string, text: string) =>
+  id3Frame(id, concatBytes([new Uint8Array([3]), utf8.encode(text)]));
+
+const uint32BE = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+// ID3 chapters (CHAP) plus the table of contents (CTOC) that lists them in order
+const createChapterFrames = (chapters: Chapter[]): Uint8Array[] => {
+  if (chapters.length === 0) return [];
+  const ids = chapters.slice(0, 255).map((_, i) => `chp${i + 1}`);
+  const toc = id3Frame('CTOC', concatBytes([
+    latin1('toc\0'),
+    new Uint8Array([0x03, ids.length]), // Top-level and ordered
+    ...ids.map(id => latin1(`${id}\0`)),
+  ]));
+  return [toc, ...ids.map((id, i) => id3Frame('CHAP', concatBytes([
+    latin1(`${id}\0`),
+    uint32BE(Math.round(chapters[i].start * 1000)),
+    uint32BE(Math.round(chapters[i].end * 1000)),
+    uint32BE(0xFFFFFFFF), // No byte offsets, players go by time
+    uint32BE(0xFFFFFFFF),
+    id3TextFrame('TIT2', chapters[i].name),
+  ])))];
+};
+
+// The tag to put in front of the MP3 data, or null if there is nothing to write
+export const createId3Tag = (metadata: ExportMetadata, chapters: Chapter[] = []): Uint8Array | null => {
+  const frames: Uint8Array[] = [];
+  const textFrames: [string, string][] = [
+    ['TIT2', metadata.title],
+    ['TPE1', metadata.artist],
+    ['TALB', metadata.album],
+    ['TDRC', metadata.year],
+    ['TCON', metadata.genre],
+    ['TSRC', metadata.isrc],
+  ];
+  textFrames.forEach(([id, value]) => {
+    if (value.trim()) frames.push(id3TextFrame(id, value.trim()));
+  });
+
+  if (metadata.comment.trim()) {
+    // Encoding, language, empty description (terminated), text
+    frames.push(id3Frame('COMM', concatBytes([
+      new Uint8Array([3]), latin1('eng'), new Uint8Array([0]), utf8.encode(metadata.comment.trim()),
+    ])));
+  }
+
+  if (metadata.cover) {
+    // Latin-1 encoding, MIME type, picture type 3 (front cover), empty description
+    frames.push(id3Frame('APIC', concatBytes([
+      new Uint8Array([0]), latin1(metadata.cover.mimeType), new Uint8Array([0, 3, 0]), metadata.cover.data,
+    ])));
+  }
+
+  frames.push(...createChapterFrames(chapters));
+
+  if (frames.length === 0) return null;
+  const body = concatBytes(frames);
+  return concatBytes([latin1('ID3'), new Uint8Array([4, 0, 0]), synchsafe(body.length), body]);
+};
+
+// --- RIFF (WAV) ---
+
+// Chunk header, payload and the pad byte RIFF wants after odd sizes
+const riffChunk = (id: string, payload: Uint8Array) => {
+  const chunk = new Uint8Array(8 + payload.length + (payload.length % 2));
+  chunk.set(latin1(id));
+  new DataView(chunk.buffer).setUint32(4, payload.length, true);
+  chunk.set(payload, 8);
+  return chunk;
+};
+
+// LIST/INFO, the tags Windows and most players read from WAV files. INFO has
+// no field for the ISRC (its ISRC id means "source"), so that stays out.
+export const createInfoChunk = (metadata: ExportMetadata): Uint8Array | null => {
+  const fields: [string, string][] = [
+    ['INAM', metadata.title],
+    ['IART', metadata.artist],
+    ['IPRD', metadata.album],
+    ['ICRD', metadata.year],
+    ['IGNR', metadata.genre],
+    ['ICMT', metadata.comment],
+  ].filter(([, value]) => value.trim() !== '') as [string, string][];
+  if (fields.length === 0) return null;
+
+  fields.push(['ISFT', APP_NAME]);
+  return riffChunk('LIST', concatBytes([
+    latin1('INFO'),
+    ...fields.map(([id, value]) => riffChunk(id, utf8.encode(`${value.trim()}\0`))),
+  ]));
+};
+
+// Cue points with their names (`cue ` plus LIST/adtl); regions also get an
+// ltxt entry with their length. `markers` are relative to the start of the file.
+export const createCueChunks = (markers: Marker[], sampleRate: number): Uint8Array[] => {
+  const sorted = sortMarkers(markers);
+  if (sorted.length === 0) return [];
+
+  const cue = new Uint8Array(4 + sorted.length * 24);
+  const view = new DataView(cue.buffer);
+  view.setUint32(0, sorted.length, true);
+  sorted.forEach((marker, i) => {
+    const offset = 4 + i * 24;
+    const position = Math.round(marker.start * sampleRate);
+    view.setUint32(offset, i + 1, true); // Cue point id
+    view.setUint32(offset + 4, position, true);
+    cue.set(latin1('data'), offset + 8);
+    // Chunk start and block start stay 0 for uncompressed data
+    view.setUint32(offset + 20, position, true);
+  });
+
+  const labels = sorted.flatMap((marker, i) => {
+    const label = concatBytes([new Uint8Array(4), utf8.encode(`${marker.name}\0`)]);
+    new DataView(label.buffer).setUint32(0, i + 1, true);
+    const entries = [riffChunk('labl', label)];
+    if (isRegion(marker)) {
+      const text = new Uint8Array(20);
+      const textView = new DataView(text.buffer);
+      textView.setUint32(0, i + 1, true);
+      textView.setUint32(4, Math.round((marker.end - marker.start) * sampleRate), true);
+      text.set(latin1('rgn '), 8);
+      // Country, language, dialect and code page left at 0
+      entries.push(riffChunk('ltxt', text));
+    }
+    return entries;
+  });
+
+  return [riffChunk('cue ', cue), riffChunk('LIST', concatBytes([latin1('adtl'), ...labels]))];
+};
+
+export interface BextFormat {
+  sampleRate: number;
+  bitDepth: number;
+  channels: number;
+  timeReference: number; // Samples from the start of the session to the first sample
+}
+
+// Fixed-width ASCII field, zero padded
+const writeAscii = (target: Uint8Array, offset: number, length: number, text: string) => {
+  target.set(latin1(text.replace(/[^\x20-\x7E]/g, '?')).subarray(0, length), offset);
+};
+
+// Broadcast Wave (EBU Tech 3285, version 1): who made the file, when, and
+// where it sits on the timeline, so an editor can place it at its position
+export const createBextChunk = (metadata: ExportMetadata, format: BextFormat, date: Date = new Date()): Uint8Array => {
+  const codingHistory = latin1(
+    `A=PCM,F=${format.sampleRate},W=${format.bitDepth},M=${format.channels === 1 ? 'mono' : 'stereo'},T=${APP_NAME}\r\n`,
+  );
+  const payload = new Uint8Array(602 + codingHistory.length);
+  const view = new DataView(payload.buffer);
+
+  writeAscii(payload, 0, 256, metadata.comment.trim() || metadata.title.trim()); // Description
+  writeAscii(payload, 256, 32, metadata.originator.trim() || APP_NAME);
+  // 288: originator reference, left empty
+  writeAscii(payload, 320, 10, formatDate(date));
+  writeAscii(payload, 330, 8, `${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}`);
+  view.setUint32(338, format.timeReference % 2 ** 32, true);
+  view.setUint32(342, Math.floor(format.timeReference / 2 ** 32), true);
+  view.setUint16(346, 1, true); // Version
+  // 348: UMID (64 bytes) and 190 reserved bytes, all zero
+  payload.set(codingHistory, 602);
+
+  return riffChunk('bext', payload);
+};
+
+// --- FLAC ---
+
+// Empty fields are left out of the file, so no DATE is written without a year
+export const getVorbisComments = (metadata: ExportMetadata): Record<string, string> => ({
+  TITLE: metadata.title.trim(),
+  ARTIST: metadata.artist.trim(),
+  ALBUM: metadata.album.trim(),
+  DATE: metadata.year.trim(),
+  GENRE: metadata.genre.trim(),
+  ISRC: metadata.isrc.trim(),
+  COMMENT: metadata.comment.trim(),
+});
+
+// Body of a PICTURE metadata block (big-endian)
+export const createFlacPicture = (cover: CoverImage): Uint8Array => {
+  const mimeType = latin1(cover.mimeType);
+  const body = new Uint8Array(32 + mimeType.length + cover.data.length);
+  const view = new DataView(body.buffer);
+  let offset = 0;
+  const writeUint32 = (value: number) => {
+    view.setUint32(offset, value);
+    offset += 4;
+  };
+
+  writeUint32(3); // Front cover
+  writeUint32(mimeType.length);
+  body.set(mimeType, offset);
+  offset += mimeType.length;
+  writeUint32(0); // No description
+  writeUint32(cover.width);
+  writeUint32(cover.height);
+  writeUint32(24); // Bits per pixel
+  writeUint32(0); // Not an indexed image
+  writeUint32(cover.data.length);
+  body.set(cover.data, offset);
+  return body;
+};
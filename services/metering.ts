@@ -0,0 +1,228 @@
+import { getKWeightingFilters, powerToLufs } from './loudness';
+import { hasWorklets } from './worklets';
+
+// Levels are in dB (-Infinity for silence); loudness in LUFS, range in LU
+export interface MeterReadings {
+  peak: [number, number]; // Sample peak, dBFS
+  truePeak: [number, number]; // dBTP
+  rms: [number, number]; // dBFS
+  truePeakMax: number; // Highest true peak since the last clip reset
+  clipped: [boolean, boolean]; // Held until reset
+  momentary: number; // 400 ms
+  shortTerm: number; // 3 s
+  integrated: number; // Gated, since the last loudness reset
+  range: number; // LRA
+}
+
+export interface MeterStage {
+  input: AudioNode;
+  // Latest readings, or null until the meter has seen audio
+  getReadings: () => MeterReadings | null;
+  resetClips: () => void;
+  resetLoudness: () => void;
+  disconnect: () => void;
+}
+
+const MOMENTARY_STEPS = 4; // x 100 ms
+const SHORT_TERM_STEPS = 30;
+
+// Gated loudness history, kept as a histogram so a long session costs the
+// same per step as a short one: each bin holds a block count and the sum of
+// their powers. Blocks are binned at 0.1 LU from the -70 LUFS absolute gate
+// up; a bin counts as above a relative gate when its centre is.
+const HISTOGRAM_FLOOR = -70;
+const HISTOGRAM_STEP = 0.1;
+const HISTOGRAM_BINS = 800; // up to +10 LUFS, louder blocks share the top bin
+
+interface GatedHistogram {
+  add: (power: number) => void;
+  // Power-weighted mean of the blocks above `gateOffset` LU below the mean
+  gatedMean: (gateOffset: number) => number;
+  // Spread between two percentiles of the blocks above the relative gate
+  spread: (gateOffset: number, low: number, high: number) => number;
+  clear: () => void;
+}
+
+const getBinLevel = (bin: number) => HISTOGRAM_FLOOR + (bin + 0.5) * HISTOGRAM_STEP;
+
+const createGatedHistogram = (): GatedHistogram => {
+  const counts = new Uint32Array(HISTOGRAM_BINS);
+  const powers = new Float64Array(HISTOGRAM_BINS);
+  let count = 0;
+  let power = 0;
+
+  const add = (blockPower: number) => {
+    const level = powerToLufs(blockPower);
+    // Blocks under the absolute gate never count, so silence (e.g. while
+    // stopped) doesn't touch the history
+    if (!(level > HISTOGRAM_FLOOR)) return;
+    const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor((level - HISTOGRAM_FLOOR) / HISTOGRAM_STEP));
+    counts[bin]++;
+    powers[bin] += blockPower;
+    count++;
+    power += blockPower;
+  };
+
+  // First bin above the relative gate, or -1 with nothing gated in yet
+  const getGateBin = (gateOffset: number) => {
+    if (count === 0) return -1;
+    const gate = powerToLufs(power / count) - gateOffset;
+    return Math.max(0, Math.ceil((gate - HISTOGRAM_FLOOR) / HISTOGRAM_STEP - 0.5));
+  };
+
+  const gatedMean = (gateOffset: number) => {
+    const first = getGateBin(gateOffset);
+    if (first < 0) return 0;
+    let gatedCount = 0;
+    let gatedPower = 0;
+    for (let bin = first; bin < HISTOGRAM_BINS; bin++) {
+      gatedCount += counts[bin];
+      gatedPower += powers[bin];
+    }
+    return gatedCount > 0 ? gatedPower / gatedCount : 0;
+  };
+
+  const spread = (gateOffset: number, low: number, high: number) => {
+    const first = getGateBin(gateOffset);
+    if (first < 0) return 0;
+    let gatedCount = 0;
+    for (let bin = first; bin < HISTOGRAM_BINS; bin++) gatedCount += counts[bin];
+    if (gatedCount === 0) return 0;
+
+    // Same nearest-rank percentiles as getLoudnessRange
+    const percentile = (q: number) => {
+      const rank = Math.round(q * (gatedCount - 1));
+      let seen = 0;
+      for (let bin = first; bin < HISTOGRAM_BINS; bin++) {
+        seen += counts[bin];
+        if (seen > rank) return getBinLevel(bin);
+      }
+      return getBinLevel(HISTOGRAM_BINS - 1);
+    };
+    return percentile(high) - percentile(low);
+  };
+
+  const clear = () => {
+    counts.fill(0);
+    powers.fill(0);
+    count = 0;
+    power = 0;
+  };
+
+  return { add, gatedMean, spread, clear };
+};
+
+const gainToDb = (gain: number) => gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+
+// Master-bus meter fed from the 'level-meter' worklet. The worklet does the
+// per-sample work (peaks, RMS, K-weighting); the gating for integrated
+// loudness and LRA happens here on the 100 ms steps it reports.
+export const createMeterStage = (ctx: BaseAudioContext): MeterStage => {
+  const input = ctx.createGain();
+  const meter = hasWorklets(ctx)
+    ? new AudioWorkletNode(ctx, 'level-meter', {
+      numberOfOutputs: 0,
+      processorOptions: { kWeighting: getKWeightingFilters(ctx.sampleRate) },
+    })
+    : null;
+  if (meter) input.connect(meter);
+
+  let readings: MeterReadings | null = null;
+  let truePeakMax = -Infinity;
+  let clipped: [boolean, boolean] = [false, false];
+
+  // The last 3 s of 100 ms step energies, oldest overwritten first
+  const recentSteps = new Float64Array(SHORT_TERM_STEPS);
+  let nextStep = 0;
+  let stepCount = 0;
+  // Gated history: 400 ms blocks for integrated loudness, 3 s for LRA
+  const blocks = createGatedHistogram();
+  const shortTerms = createGatedHistogram();
+  let integrated = -Infinity;
+  let range = 0;
+
+  const resetLoudness = () => {
+    recentSteps.fill(0);
+    nextStep = 0;
+    stepCount = 0;
+    blocks.clear();
+    shortTerms.clear();
+    integrated = -Infinity;
+    range = 0;
+    if (readings) readings = { ...readings, integrated, range };
+  };
+
+  const resetClips = () => {
+    truePeakMax = -Infinity;
+    clipped = [false, false];
+    if (readings) readings = { ...readings, truePeakMax, clipped };
+  };
+
+  const windowPower = (steps: number, stepLength: number) => {
+    if (stepCount < steps) return 0;
+    let energy = 0;
+    for (let i = 1; i <= steps; i++) {
+      energy += recentSteps[(nextStep - i + SHORT_TERM_STEPS) % SHORT_TERM_STEPS];
+    }
+    return energy / (steps * stepLength);
+  };
+
+  if (meter) {
+    meter.port.onmessage = (e) => {
+      const { peak, truePeak, rms, steps, stepLength } = e.data as {
+        peak: number[];
+        truePeak: number[];
+        rms: number[];
+        steps: number[];
+        stepLength: number;
+      };
+
+      steps.forEach(step => {
+        recentSteps[nextStep] = step;
+        nextStep = (nextStep + 1) % SHORT_TERM_STEPS;
+        stepCount = Math.min(SHORT_TERM_STEPS, stepCount + 1);
+        blocks.add(windowPower(MOMENTARY_STEPS, stepLength));
+        shortTerms.add(windowPower(SHORT_TERM_STEPS, stepLength));
+      });
+      if (steps.length > 0) {
+        // BS.1770 relative gate -10 LU; EBU Tech 3342 gate -20 LU, 10th to 95th percentile
+        integrated = powerToLufs(blocks.gatedMean(10));
+        range = shortTerms.spread(20, 0.1, 0.95);
+      }
+
+      const peakDb: [number, number] = [gainToDb(peak[0]), gainToDb(peak[1])];
+      const truePeakDb: [number, number] = [gainToDb(truePeak[0]), gainToDb(truePeak[1])];
+      truePeakMax = Math.max(truePeakMax, truePeakDb[0], truePeakDb[1]);
+      // A sample at full scale is treated as a clip
+      clipped = [clipped[0] || peak[0] >= 1, clipped[1] || peak[1] >= 1];
+
+      readings = {
+        peak: peakDb,
+        truePeak: truePeakDb,
+        rms: [gainToDb(rms[0]), gainToDb(rms[1])],
+        truePeakMax,
+        clipped,
+        momentary: powerToLufs(windowPower(MOMENTARY_STEPS, stepLength)),
+        shortTerm: powerToLufs(windowPower(SHORT_TERM_STEPS, stepLength)),
+        integrated,
+        range,
+      };
+    };
+  }
+
+  const disconnect = () => {
+    input.disconnect();
+    if (meter) {
+      meter.port.onmessage = null;
+      meter.disconnect();
+    }
+  };
+
+  return {
+    input,
+    getReadings: () => readings,
+    resetClips,
+    resetLoudness,
+    disconnect,
+  };
+};
@@ -0,0 +1,65 @@
+import { TempoSettings } from '../types';
+import { barsToTime, timeToBars } from './tempo';
+
+// The click track. Beats are short decaying sine blips, higher on the
+// downbeat, scheduled on the context clock like the clips so they stay
+// locked to the audio. Live it goes into the monitor section, past the
+// master bus; a bounce only renders it when asked to.
+
+const CLICK_LENGTH = 0.03;
+const ACCENT_FREQUENCY = 1760;
+const BEAT_FREQUENCY = 1320;
+const CLICK_LEVEL = 0.5;
+
+interface ClickBuffers {
+  accent: AudioBuffer;
+  beat: AudioBuffer;
+}
+
+// One pair per context (the offline bounce gets its own)
+const clickBuffers = new WeakMap<BaseAudioContext, ClickBuffers>();
+
+const createClickBuffer = (ctx: BaseAudioContext, frequency: number) => {
+  const length = Math.ceil(CLICK_LENGTH * ctx.sampleRate);
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) {
+    const t = i / ctx.sampleRate;
+    data[i] = CLICK_LEVEL * Math.sin(2 * Math.PI * frequency * t) * Math.exp(-t * 150);
+  }
+  return buffer;
+};
+
+const getClickBuffers = (ctx: BaseAudioContext): ClickBuffers => {
+  let buffers = clickBuffers.get(ctx);
+  if (!buffers) {
+    buffers = { accent: createClickBuffer(ctx, ACCENT_FREQUENCY), beat: createClickBuffer(ctx, BEAT_FREQUENCY) };
+    clickBuffers.set(ctx, buffers);
+  }
+  return buffers;
+};
+
+// Schedules a click for every beat in the timeline span `position`..`end`,
+// with `position` playing at context time `when`. Returns the sources so
+// live playback can stop them again.
+export const scheduleClicks = (
+  ctx: BaseAudioContext,
+  tempo: TempoSettings,
+  destination: AudioNode,
+  position: number,
+  when: number,
+  end: number,
+): AudioBufferSourceNode[] => {
+  const { accent, beat } = getClickBuffers(ctx);
+  const sources: AudioBufferSourceNode[] = [];
+  // Tolerance so a beat right on `position` isn't lost to rounding
+  let index = Math.ceil(timeToBars(tempo, position) * tempo.beatsPerBar - 1e-6);
+  for (let time = barsToTime(tempo, index / tempo.beatsPerBar); time < end; time = barsToTime(tempo, ++index / tempo.beatsPerBar)) {
+    const source = ctx.createBufferSource();
+    source.buffer = index % tempo.beatsPerBar === 0 ? accent : beat;
+    source.connect(destination);
+    source.start(when + Math.max(0, time - position));
+    sources.push(source);
+  }
+  return sources;
+};
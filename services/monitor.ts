@@ -0,0 +1,76 @@
+import { MonitorMode, MonitorSettings } from '../types';
+
+export const MONITOR_DIM_DB = -20;
+
+export const MONITOR_MODE_LABELS: Record<MonitorMode, string> = {
+  stereo: 'ST',
+  mono: 'MONO',
+  left: 'L',
+  right: 'R',
+};
+
+export const createDefaultMonitor = (): MonitorSettings => ({ mode: 'stereo', dim: false });
+
+// [L->L, R->L, L->R, R->R] gains for each mode. Mono is the -6 dB sum, so a
+// centered source keeps its level and anything out of phase cancels.
+const MONITOR_MATRIX: Record<MonitorMode, [number, number, number, number]> = {
+  stereo: [1, 0, 0, 1],
+  mono: [0.5, 0.5, 0.5, 0.5],
+  left: [1, 0, 1, 0],
+  right: [0, 1, 0, 1],
+};
+
+export interface MonitorStage {
+  input: AudioNode;
+  output: AudioNode;
+  update: (settings: MonitorSettings) => void;
+  disconnect: () => void;
+}
+
+// Sits between the master bus and the speakers only. The meters and the
+// bounce take the signal before it, so nothing here can end up in a file.
+//
+//   input -> splitter -> 2x2 gain matrix -> merger -> dim -> output
+export const createMonitorStage = (ctx: BaseAudioContext, settings: MonitorSettings): MonitorStage => {
+  const input = ctx.createGain();
+  const splitter = ctx.createChannelSplitter(2);
+  const merger = ctx.createChannelMerger(2);
+  const dim = ctx.createGain();
+
+  const matrix = [0, 1, 2, 3].map(() => ctx.createGain());
+  input.connect(splitter);
+  splitter.connect(matrix[0], 0);
+  splitter.connect(matrix[1], 1);
+  splitter.connect(matrix[2], 0);
+  splitter.connect(matrix[3], 1);
+  matrix[0].connect(merger, 0, 0);
+  matrix[1].connect(merger, 0, 0);
+  matrix[2].connect(merger, 0, 1);
+  matrix[3].connect(merger, 0, 1);
+  merger.connect(dim);
+
+  const apply = (next: MonitorSettings, smooth: boolean) => {
+    const now = ctx.currentTime;
+    const set = (param: AudioParam, value: number) => {
+      if (smooth) {
+        param.setTargetAtTime(value, now, 0.01);
+      } else {
+        param.value = value;
+      }
+    };
+    MONITOR_MATRIX[next.mode].forEach((gain, i) => set(matrix[i].gain, gain));
+    set(dim.gain, next.dim ? Math.pow(10, MONITOR_DIM_DB / 20) : 1);
+  };
+
+  apply(settings, false);
+
+  const disconnect = () => {
+    input.disconnect();
+    splitter.disconnect();
+    matrix.forEach(gain => gain.disconnect());
+    merger.disconnect();
+    dim.disconnect();
+  };
+
+  return { input, output: dim, update: (next) => apply(next, true), disconnect };
+};
@@ -0,0 +1,82 @@
+import { Mp3Mode } from '../types';
+import type { Mp3WorkerRequest } from './mp3Worker';
+
+// The bundled LAME build has no ABR and no stereo mode switch: a stereo
+// render is always written as joint stereo, a mono render as mono
+export const MP3_MODE_LABELS: Record<Mp3Mode, string> = {
+  cbr: 'CBR',
+  vbr: 'VBR',
+};
+
+// Constant rates MPEG-1 Layer III allows that are worth offering for music
+export const MP3_BITRATES = [96, 112, 128, 160, 192, 224, 256, 320];
+export const MP3_DEFAULT_BITRATE = 320;
+
+// LAME's -V presets: 0 is the best quality, 9 the smallest file
+export const MP3_VBR_QUALITIES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+export const MP3_DEFAULT_QUALITY = 0;
+
+// Typical stereo bitrate (kbps) of each VBR preset, for size estimates
+const VBR_AVERAGE_BITRATES = [245, 225, 190, 175, 165, 130, 115, 100, 85, 65];
+
+export interface Mp3Options {
+  mode: Mp3Mode;
+  bitrate: number; // kbps; CBR only
+  quality: number; // VBR preset
+  onProgress?: (progress: number) => void; // 0 to 1
+}
+
+// What the file will average, for size estimates
+export const getMp3AverageBitrate = (options: Pick<Mp3Options, 'mode' | 'bitrate' | 'quality'>) =>
+  options.mode === 'vbr' ? VBR_AVERAGE_BITRATES[options.quality] ?? VBR_AVERAGE_BITRATES[0] : options.bitrate;
+
+export const describeMp3Options = (options: Pick<Mp3Options, 'mode' | 'bitrate' | 'quality'>) => {
+  if (options.mode === 'vbr') return `VBR V${options.quality}`;
+  return `CBR ${options.bitrate}kbps`;
+};
+
+// Copies of the channels to encode (they are handed over to the worker)
+const getEncoderChannels = (buffer: AudioBuffer): Float32Array[] =>
+  Array.from({ length: Math.min(buffer.numberOfChannels, 2) }, (_, i) => buffer.getChannelData(i).slice());
+
+// Encodes in a worker. The encoder takes float samples directly, so nothing
+// is reduced to 16 bits (or dithered) first. Mono gives a true mono file.
+export const audioBufferToMp3 = async (buffer: AudioBuffer, options: Mp3Options): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./mp3Worker.ts', import.meta.url), { type: 'module' });
+    const chunks: Uint8Array[] = [];
+    const channels = getEncoderChannels(buffer);
+
+    worker.onmessage = (e) => {
+      if (e.data.error) {
+        reject(new Error(e.data.error));
+        worker.terminate();
+        return;
+      }
+      if (e.data.chunk && e.data.chunk.length > 0) {
+        chunks.push(e.data.chunk);
+      }
+      if (e.data.progress !== undefined) {
+        options.onProgress?.(e.data.progress);
+      }
+      if (e.data.done) {
+        resolve(new Blob(chunks, { type: 'audio/mpeg' }));
+        worker.terminate();
+      }
+    };
+
+    worker.onerror = (e) => {
+      reject(new Error("Worker error: " + e.message));
+      worker.terminate();
+    };
+
+    const request: Mp3WorkerRequest = {
+      channels,
+      sampleRate: buffer.sampleRate,
+      mode: options.mode,
+      bitrate: options.bitrate,
+      quality: options.quality,
+    };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+};
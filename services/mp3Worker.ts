@@ -0,0 +1,55 @@
+/// <reference types="vite/client" />
+import { createEncoder } from 'wasm-media-encoders';
+import mp3WasmUrl from 'wasm-media-encoders/wasm/mp3?url';
+import { Mp3Mode } from '../types';
+
+// MP3 encoding worker. The encoder is LAME compiled to WebAssembly and bundled
+// with the app, so exports work offline. Encoded data is posted back chunk by
+// chunk together with the progress; { done: true } marks the end.
+
+type CbrBitrate = 8 | 16 | 24 | 32 | 40 | 48 | 64 | 80 | 96 | 112 | 128 | 160 | 192 | 224 | 256 | 320;
+
+export interface Mp3WorkerRequest {
+  channels: Float32Array[]; // One (mono) or two; the bundled LAME always codes two as joint stereo
+  sampleRate: number;
+  mode: Mp3Mode;
+  bitrate: number; // kbps
+  quality: number; // 0-9
+}
+
+// About one second of audio per chunk, in whole MPEG frames
+const CHUNK_SAMPLES = 1152 * 40;
+
+const post = (message: object, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async (e: MessageEvent<Mp3WorkerRequest>) => {
+  const { channels, sampleRate, mode, bitrate, quality } = e.data;
+
+  try {
+    if (channels.length !== 1 && channels.length !== 2) {
+      throw new Error(`Expected 1 or 2 channels, got ${channels.length}`);
+    }
+    const channelCount = channels.length;
+    const encoder = await createEncoder('audio/mpeg', mp3WasmUrl);
+
+    if (mode === 'cbr') {
+      encoder.configure({ channels: channelCount, sampleRate, bitrate: bitrate as CbrBitrate });
+    } else {
+      encoder.configure({ channels: channelCount, sampleRate, vbrQuality: quality });
+    }
+
+    const length = channels[0].length;
+    for (let i = 0; i < length; i += CHUNK_SAMPLES) {
+      // The output is a view into the encoder's memory, so it's copied before sending
+      const chunk = encoder.encode(channels.map(data => data.subarray(i, i + CHUNK_SAMPLES))).slice();
+      const progress = Math.min(1, (i + CHUNK_SAMPLES) / length);
+      post({ chunk, progress }, [chunk.buffer]);
+    }
+
+    const chunk = encoder.finalize().slice();
+    post({ chunk, progress: 1 }, [chunk.buffer]);
+    post({ done: true });
+  } catch (err) {
+    post({ error: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,371 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AudioClip,
+  AudioTrack,
+  AutomationLane,
+  AutomationMode,
+  AutomationParam,
+  AutomationPoint,
+  LimiterSettings,
+  LoudnessTarget,
+  Marker,
+  PanLaw,
+  TempoChange,
+  TempoSettings,
+  TrackDynamics,
+  TrackEq,
+} from '../types';
+import { AUTOMATION_CURVES, createAutomationLane, createTrackAutomation } from './automation';
+import { FADE_CURVES } from './fades';
+import { createDefaultEq } from './eq';
+import { createDefaultDynamics } from './dynamics';
+import { createDefaultLimiter } from './limiter';
+import { createDefaultTempo } from './tempo';
+import { createZip, readZip, sanitizeFileName } from './zip';
+
+// A project bundle is a ZIP holding `project.json` (the manifest) and the
+// original audio files under `audio/`. Bump PROJECT_VERSION whenever the
+// manifest shape changes and teach migrateManifest how to read the old one.
+export const PROJECT_FORMAT = 'online-tracks-bouncer-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.otbproj';
+const MANIFEST_PATH = 'project.json';
+
+// Everything needed to rebuild the session
+export interface ProjectSession {
+  tracks: AudioTrack[];
+  masterVolume: number;
+  limiter: LimiterSettings;
+  loudnessTarget: LoudnessTarget | null;
+  markers: Marker[];
+  tempo: TempoSettings;
+}
+
+// Runtime-only fields never go into the manifest: the Blob URL is recreated
+// on open, and the waveform/decoded buffer are rebuilt by TrackRow.
+type RuntimeTrackFields = 'file' | 'wavesurfer' | 'audioBuffer';
+
+export interface ProjectTrackManifest extends Omit<AudioTrack, RuntimeTrackFields> {
+  file: {
+    path: string; // Inside the bundle
+    name: string;
+    type: string;
+    lastModified: number;
+  };
+}
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string; // ISO date
+  masterVolume: number;
+  limiter: LimiterSettings;
+  loudnessTarget: LoudnessTarget | null;
+  markers: Marker[];
+  tempo: TempoSettings;
+  tracks: ProjectTrackManifest[]; // In mixer order
+}
+
+// Builds the manifest; `getPath` decides where each track's audio is stored
+export const createManifest = (session: ProjectSession, getPath: (track: AudioTrack, index: number) => string): ProjectManifest => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  masterVolume: session.masterVolume,
+  limiter: session.limiter,
+  loudnessTarget: session.loudnessTarget,
+  markers: session.markers,
+  tempo: session.tempo,
+  tracks: session.tracks.map((track, index) => {
+    const { file, wavesurfer, audioBuffer, ...settings } = track;
+    return {
+      ...settings,
+      file: {
+        path: getPath(track, index),
+        name: file.name,
+        type: file.type,
+        lastModified: file.lastModified,
+      },
+    };
+  }),
+});
+
+export const saveProject = async (session: ProjectSession): Promise<Blob> => {
+  const manifest = createManifest(session, (track, index) =>
+    `audio/${String(index + 1).padStart(2, '0')}-${sanitizeFileName(track.file.name)}`);
+
+  return await createZip([
+    { name: MANIFEST_PATH, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) },
+    ...session.tracks.map((track, i) => ({ name: manifest.tracks[i].file.path, data: track.file })),
+  ]);
+};
+
+// --- Reading a manifest ---
+// The manifest comes from a file (or IndexedDB), so nothing in it is trusted.
+// A field an older version didn't store gets its default; a field that is
+// there but has the wrong shape fails the whole open, with its path, instead
+// of crashing somewhere in the audio graph later.
+
+type JsonObject = Record<string, unknown>;
+type Parse<T> = (value: unknown, path: string) => T;
+
+const fail = (path: string): never => {
+  throw new Error(`The project file is damaged: "${path}" is missing or invalid.`);
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asObject: Parse<JsonObject> = (value, path) => isObject(value) ? value : fail(path);
+const asNumber: Parse<number> = (value, path) => typeof value === 'number' && Number.isFinite(value) ? value : fail(path);
+const asString: Parse<string> = (value, path) => typeof value === 'string' ? value : fail(path);
+const asBoolean: Parse<boolean> = (value, path) => typeof value === 'boolean' ? value : fail(path);
+
+const asOneOf = <T extends string>(options: readonly T[]): Parse<T> =>
+  (value, path) => options.includes(value as T) ? value as T : fail(path);
+
+const asArray = <T>(parseItem: Parse<T>): Parse<T[]> =>
+  (value, path) => Array.isArray(value) ? value.map((item, i) => parseItem(item, `${path}[${i}]`)) : fail(path);
+
+const asNullable = <T>(parse: Parse<T>): Parse<T | null> => (value, path) => value === null ? null : parse(value, path);
+
+// `obj[key]`, or `fallback` when it's absent (no fallback = required)
+const read = <T>(obj: JsonObject, key: string, path: string, parse: Parse<T>, fallback?: T): T => {
+  if (obj[key] === undefined) return fallback !== undefined ? fallback : fail(`${path}.${key}`);
+  return parse(obj[key], `${path}.${key}`);
+};
+
+const parseClip: Parse<AudioClip> = (value, path) => {
+  const clip = asObject(value, path);
+  const fadeCurve = asOneOf(FADE_CURVES);
+  return {
+    id: read(clip, 'id', path, asString),
+    start: read(clip, 'start', path, asNumber),
+    offset: read(clip, 'offset', path, asNumber),
+    duration: read(clip, 'duration', path, asNumber),
+    fadeIn: read(clip, 'fadeIn', path, asNumber, 0),
+    fadeOut: read(clip, 'fadeOut', path, asNumber, 0),
+    fadeInCurve: read(clip, 'fadeInCurve', path, fadeCurve, 'linear'),
+    fadeOutCurve: read(clip, 'fadeOutCurve', path, fadeCurve, 'linear'),
+  };
+};
+
+const parseAutomationPoint: Parse<AutomationPoint> = (value, path) => {
+  const point = asObject(value, path);
+  return {
+    time: read(point, 'time', path, asNumber),
+    value: read(point, 'value', path, asNumber),
+    curve: read(point, 'curve', path, asOneOf(AUTOMATION_CURVES), 'linear'),
+  };
+};
+
+const parseAutomationLane: Parse<AutomationLane> = (value, path) => {
+  const lane = asObject(value, path);
+  const defaults = createAutomationLane();
+  return {
+    mode: read(lane, 'mode', path, asOneOf<AutomationMode>(['off', 'read', 'write']), defaults.mode),
+    points: read(lane, 'points', path, asArray(parseAutomationPoint), defaults.points),
+  };
+};
+
+const parseAutomation: Parse<Record<AutomationParam, AutomationLane>> = (value, path) => {
+  const automation = asObject(value, path);
+  const defaults = createTrackAutomation();
+  return {
+    volume: read(automation, 'volume', path, parseAutomationLane, defaults.volume),
+    pan: read(automation, 'pan', path, parseAutomationLane, defaults.pan),
+  };
+};
+
+// The band layout is fixed, so each band has to be the type of its slot
+const parseEq: Parse<TrackEq> = (value, path) => {
+  const eq = asObject(value, path);
+  const defaults = createDefaultEq();
+  const bands = read(eq, 'bands', path, asArray(asObject), []);
+  if (eq.bands !== undefined && bands.length !== defaults.bands.length) fail(`${path}.bands`);
+  return {
+    bypass: read(eq, 'bypass', path, asBoolean, defaults.bypass),
+    bands: defaults.bands.map((fallback, i) => {
+      const band = bands[i];
+      if (!band) return fallback;
+      const bandPath = `${path}.bands[${i}]`;
+      return {
+        type: read(band, 'type', bandPath, asOneOf([fallback.type]), fallback.type),
+        enabled: read(band, 'enabled', bandPath, asBoolean, fallback.enabled),
+        frequency: read(band, 'frequency', bandPath, asNumber, fallback.frequency),
+        gain: read(band, 'gain', bandPath, asNumber, fallback.gain),
+        q: read(band, 'q', bandPath, asNumber, fallback.q),
+      };
+    }),
+  };
+};
+
+const parseDynamics: Parse<TrackDynamics> = (value, path) => {
+  const dynamics = asObject(value, path);
+  const defaults = createDefaultDynamics();
+  const gate = read(dynamics, 'gate', path, asObject, {});
+  const compressor = read(dynamics, 'compressor', path, asObject, {});
+  const gatePath = `${path}.gate`;
+  const compressorPath = `${path}.compressor`;
+  return {
+    gate: {
+      enabled: read(gate, 'enabled', gatePath, asBoolean, defaults.gate.enabled),
+      threshold: read(gate, 'threshold', gatePath, asNumber, defaults.gate.threshold),
+      attack: read(gate, 'attack', gatePath, asNumber, defaults.gate.attack),
+      hold: read(gate, 'hold', gatePath, asNumber, defaults.gate.hold),
+      release: read(gate, 'release', gatePath, asNumber, defaults.gate.release),
+      range: read(gate, 'range', gatePath, asNumber, defaults.gate.range),
+    },
+    compressor: {
+      enabled: read(compressor, 'enabled', compressorPath, asBoolean, defaults.compressor.enabled),
+      threshold: read(compressor, 'threshold', compressorPath, asNumber, defaults.compressor.threshold),
+      ratio: read(compressor, 'ratio', compressorPath, asNumber, defaults.compressor.ratio),
+      attack: read(compressor, 'attack', compressorPath, asNumber, defaults.compressor.attack),
+      release: read(compressor, 'release', compressorPath, asNumber, defaults.compressor.release),
+      knee: read(compressor, 'knee', compressorPath, asNumber, defaults.compressor.knee),
+      makeup: read(compressor, 'makeup', compressorPath, asNumber, defaults.compressor.makeup),
+    },
+  };
+};
+
+const parseTrack: Parse<ProjectTrackManifest> = (value, path) => {
+  const track = asObject(value, path);
+  const file = read(track, 'file', path, asObject);
+  const filePath = `${path}.file`;
+  return {
+    id: read(track, 'id', path, asString),
+    name: read(track, 'name', path, asString),
+    volume: read(track, 'volume', path, asNumber, 0.8),
+    pan: read(track, 'pan', path, asNumber, 0),
+    panLaw: read(track, 'panLaw', path, asOneOf<PanLaw>(['equal-power', 'linear']), 'equal-power'),
+    isMuted: read(track, 'isMuted', path, asBoolean, false),
+    isSolo: read(track, 'isSolo', path, asBoolean, false),
+    duration: read(track, 'duration', path, asNumber, 0),
+    clips: read(track, 'clips', path, asArray(parseClip), []),
+    automation: read(track, 'automation', path, parseAutomation, createTrackAutomation()),
+    eq: read(track, 'eq', path, parseEq, createDefaultEq()),
+    dynamics: read(track, 'dynamics', path, parseDynamics, createDefaultDynamics()),
+    file: {
+      path: read(file, 'path', filePath, asString),
+      name: read(file, 'name', filePath, asString),
+      type: read(file, 'type', filePath, asString, ''),
+      lastModified: read(file, 'lastModified', filePath, asNumber, 0),
+    },
+  };
+};
+
+const parseLimiter: Parse<LimiterSettings> = (value, path) => {
+  const limiter = asObject(value, path);
+  const defaults = createDefaultLimiter();
+  return {
+    enabled: read(limiter, 'enabled', path, asBoolean, defaults.enabled),
+    ceiling: read(limiter, 'ceiling', path, asNumber, defaults.ceiling),
+    release: read(limiter, 'release', path, asNumber, defaults.release),
+  };
+};
+
+const parseLoudnessTarget: Parse<LoudnessTarget> = (value, path) => {
+  const target = asObject(value, path);
+  return {
+    integrated: read(target, 'integrated', path, asNumber),
+    truePeak: read(target, 'truePeak', path, asNumber),
+  };
+};
+
+const parseMarker: Parse<Marker> = (value, path) => {
+  const marker = asObject(value, path);
+  return {
+    id: read(marker, 'id', path, asString),
+    name: read(marker, 'name', path, asString, ''),
+    start: read(marker, 'start', path, asNumber),
+    end: read(marker, 'end', path, asNullable(asNumber), null),
+  };
+};
+
+const parseTempoChange: Parse<TempoChange> = (value, path) => {
+  const change = asObject(value, path);
+  return {
+    bar: read(change, 'bar', path, asNumber),
+    bpm: read(change, 'bpm', path, asNumber),
+  };
+};
+
+const parseTempo: Parse<TempoSettings> = (value, path) => {
+  const tempo = asObject(value, path);
+  const defaults = createDefaultTempo();
+  return {
+    bpm: read(tempo, 'bpm', path, asNumber, defaults.bpm),
+    beatsPerBar: read(tempo, 'beatsPerBar', path, asNumber, defaults.beatsPerBar),
+    beatUnit: read(tempo, 'beatUnit', path, asNumber, defaults.beatUnit),
+    changes: read(tempo, 'changes', path, asArray(parseTempoChange), defaults.changes),
+  };
+};
+
+// Checks the manifest and fills in anything an older version didn't store
+const migrateManifest = (raw: unknown): ProjectManifest => {
+  if (!isObject(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error("This file is not an Online Tracks Bouncer project.");
+  }
+  if (typeof raw.version !== 'number' || raw.version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version (format ${raw.version}). Please update the app.`);
+  }
+  if (!Array.isArray(raw.tracks)) {
+    throw new Error("The project manifest has no track list.");
+  }
+
+  const path = 'project';
+  return {
+    format: PROJECT_FORMAT,
+    version: raw.version,
+    savedAt: read(raw, 'savedAt', path, asString, ''),
+    masterVolume: read(raw, 'masterVolume', path, asNumber, 1),
+    limiter: read(raw, 'limiter', path, parseLimiter, createDefaultLimiter()),
+    loudnessTarget: read(raw, 'loudnessTarget', path, asNullable(parseLoudnessTarget), null),
+    markers: read(raw, 'markers', path, asArray(parseMarker), []),
+    tempo: read(raw, 'tempo', path, parseTempo, createDefaultTempo()),
+    tracks: read(raw, 'tracks', path, asArray(parseTrack)),
+  };
+};
+
+// Rebuilds the session from a manifest (any version) and its audio files
+export const restoreSession = (raw: unknown, getAudio: (path: string) => Blob | undefined): ProjectSession => {
+  const manifest = migrateManifest(raw);
+
+  const tracks: AudioTrack[] = manifest.tracks.map(({ file: fileInfo, ...settings }) => {
+    const data = getAudio(fileInfo.path);
+    if (!data) {
+      throw new Error(`Audio file "${fileInfo.name}" is missing from the project.`);
+    }
+    const file = new File([data], fileInfo.name, { type: fileInfo.type, lastModified: fileInfo.lastModified });
+    return { ...settings, file };
+  });
+
+  return {
+    tracks,
+    masterVolume: manifest.masterVolume,
+    limiter: manifest.limiter,
+    loudnessTarget: manifest.loudnessTarget,
+    markers: manifest.markers,
+    tempo: manifest.tempo,
+  };
+};
+
+export const openProject = async (bundle: Blob): Promise<ProjectSession> => {
+  const files = await readZip(bundle);
+  const manifestBlob = files.get(MANIFEST_PATH);
+  if (!manifestBlob) {
+    throw new Error("The bundle doesn't contain a project manifest.");
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestBlob.text());
+  } catch {
+    throw new Error("The project manifest is not valid JSON.");
+  }
+
+  const session = restoreSession(raw, path => files.get(path));
+  // Fresh ids so every TrackRow mounts (and decodes) again, even when the
+  // same project is opened twice
+  return { ...session, tracks: session.tracks.map(track => ({ ...track, id: uuidv4() })) };
+};
@@ -0,0 +1,84 @@
+import { TempoSettings } from '../types';
+
+// Conversions between timeline seconds and musical position. Positions are
+// counted in bars from the start of the session (0 = downbeat of bar 1), so
+// a tempo map is just a list of segments with a constant bar length.
+
+export const MIN_BPM = 20;
+export const MAX_BPM = 400;
+export const BEAT_UNITS = [2, 4, 8, 16];
+// Resolution of the third field in "bar.beat.tick"
+const TICKS_PER_BEAT = 960;
+
+export const createDefaultTempo = (): TempoSettings => ({
+  bpm: 120,
+  beatsPerBar: 4,
+  beatUnit: 4,
+  changes: [],
+});
+
+interface TempoSegment {
+  bar: number; // First bar, 0-based
+  time: number; // Seconds at that bar
+  barLength: number; // Seconds per bar
+}
+
+const getBarLength = (tempo: TempoSettings, bpm: number) => (tempo.beatsPerBar * 60) / bpm;
+
+const getSegments = (tempo: TempoSettings): TempoSegment[] => {
+  const segments: TempoSegment[] = [{ bar: 0, time: 0, barLength: getBarLength(tempo, tempo.bpm) }];
+  [...tempo.changes]
+    .sort((a, b) => a.bar - b.bar)
+    .forEach(change => {
+      const last = segments[segments.length - 1];
+      const bar = Math.max(0, Math.round(change.bar) - 1);
+      const barLength = getBarLength(tempo, change.bpm);
+      // A change on bar 1 (or twice on the same bar) replaces the tempo there
+      if (bar <= last.bar) {
+        last.barLength = barLength;
+        return;
+      }
+      segments.push({ bar, time: last.time + (bar - last.bar) * last.barLength, barLength });
+    });
+  return segments;
+};
+
+// Seconds -> bars since the start (fractional)
+export const timeToBars = (tempo: TempoSettings, time: number): number => {
+  const segments = getSegments(tempo);
+  const segment = [...segments].reverse().find(s => s.time <= time) ?? segments[0];
+  return segment.bar + (time - segment.time) / segment.barLength;
+};
+
+// Bars since the start -> seconds
+export const barsToTime = (tempo: TempoSettings, bars: number): number => {
+  const segments = getSegments(tempo);
+  const segment = [...segments].reverse().find(s => s.bar <= bars) ?? segments[0];
+  return segment.time + (bars - segment.bar) * segment.barLength;
+};
+
+// Tempo in effect at a time
+export const getBpmAt = (tempo: TempoSettings, time: number): number => {
+  const segments = getSegments(tempo);
+  const segment = [...segments].reverse().find(s => s.time <= time) ?? segments[0];
+  return (tempo.beatsPerBar * 60) / segment.barLength;
+};
+
+// "17.3.240": bar, beat and tick, all counted the way a DAW shows them
+export const formatBarsBeats = (tempo: TempoSettings, time: number): string => {
+  const bars = timeToBars(tempo, Math.max(0, time));
+  const bar = Math.floor(bars);
+  const beats = (bars - bar) * tempo.beatsPerBar;
+  const beat = Math.floor(beats);
+  const tick = Math.floor((beats - beat) * TICKS_PER_BEAT);
+  return `${bar + 1}.${beat + 1}.${String(tick).padStart(3, '0')}`;
+};
+
+// Nearest beat
+export const snapToBeat = (tempo: TempoSettings, time: number): number => {
+  const beats = Math.round(timeToBars(tempo, Math.max(0, time)) * tempo.beatsPerBar);
+  return barsToTime(tempo, beats / tempo.beatsPerBar);
+};
+
+// Bar (1-based) the playhead is in, e.g. where a new tempo change goes
+export const getBarAt = (tempo: TempoSettings, time: number): number => Math.floor(timeToBars(tempo, Math.max(0, time))) + 1;
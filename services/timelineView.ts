@@ -0,0 +1,141 @@
+import { RulerUnit, TempoSettings, TimelineView } from '../types';
+import { barsToTime, timeToBars } from './tempo';
+
+// The ruler and all track lanes draw the same slice of the timeline, so a
+// position lines up across every row. Lanes lay their content out in
+// percent of the whole session; the view only stretches and shifts that box.
+
+// Furthest zoom: this many seconds across the panel
+const MIN_VISIBLE_SPAN = 0.5;
+
+export const RULER_UNIT_LABELS: Record<RulerUnit, string> = {
+  time: 'Min:Sec',
+  samples: 'Samples',
+  bars: 'Bars|Beats',
+};
+
+export const createDefaultTimelineView = (): TimelineView => ({ zoom: 1, scroll: 0 });
+
+export const getVisibleSpan = (view: TimelineView, duration: number) => duration / view.zoom;
+
+export const clampTimelineView = (view: TimelineView, duration: number): TimelineView => {
+  if (duration <= 0) return createDefaultTimelineView();
+  const zoom = Math.max(1, Math.min(view.zoom, duration / MIN_VISIBLE_SPAN));
+  const scroll = Math.max(0, Math.min(view.scroll, duration - duration / zoom));
+  return zoom === view.zoom && scroll === view.scroll ? view : { zoom, scroll };
+};
+
+// Zooms by `factor`, keeping the time `anchor` at the same spot on screen
+export const zoomTimelineView = (view: TimelineView, duration: number, factor: number, anchor: number): TimelineView => {
+  const fraction = (anchor - view.scroll) / getVisibleSpan(view, duration);
+  const zoom = Math.max(1, view.zoom * factor);
+  return clampTimelineView({ zoom, scroll: anchor - fraction * (duration / zoom) }, duration);
+};
+
+export const scrollTimelineView = (view: TimelineView, duration: number, seconds: number): TimelineView =>
+  clampTimelineView({ ...view, scroll: view.scroll + seconds }, duration);
+
+// Box of a lane's content relative to its visible area (CSS percentages)
+export const getLaneStyle = (view: TimelineView, duration: number) => ({
+  left: `${duration > 0 ? -(view.scroll / duration) * view.zoom * 100 : 0}%`,
+  width: `${view.zoom * 100}%`,
+});
+
+// --- Ruler ---
+
+export interface RulerTick {
+  time: number;
+  label: string | null; // Only major ticks are labelled
+}
+
+// Major label spacing in pixels the ruler aims for
+const MIN_LABEL_SPACING = 80;
+
+// [major step, minor ticks per major step] in seconds
+const TIME_STEPS: [number, number][] = [
+  [0.01, 5], [0.02, 4], [0.05, 5], [0.1, 5], [0.2, 4], [0.5, 5],
+  [1, 5], [2, 4], [5, 5], [10, 5], [15, 3], [30, 3],
+  [60, 4], [120, 4], [300, 5], [600, 5], [1800, 3], [3600, 4],
+];
+
+const formatRulerTime = (seconds: number, step: number) => {
+  const decimals = step >= 1 ? 0 : step >= 0.1 ? 1 : 2;
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds - mins * 60).toFixed(decimals);
+  return `${mins}:${secs.padStart(decimals > 0 ? decimals + 3 : 2, '0')}`;
+};
+
+// 1-2-5 steps: the smallest one at least `min`
+const getNiceStep = (min: number) => {
+  const power = Math.pow(10, Math.floor(Math.log10(min)));
+  const step = [1, 2, 5, 10].map(m => m * power).find(s => s >= min)!;
+  return { step, subdivisions: step / power === 2 ? 4 : 5 };
+};
+
+const getTicks = (start: number, end: number, major: number, subdivisions: number, format: (time: number) => string) => {
+  const ticks: RulerTick[] = [];
+  const minor = major / subdivisions;
+  for (let i = Math.ceil(start / minor); i * minor <= end; i++) {
+    const time = i * minor;
+    ticks.push({ time, label: i % subdivisions === 0 ? format(time) : null });
+  }
+  return ticks;
+};
+
+// Bar numbers are short, so they can sit closer than time labels
+const MIN_BAR_LABEL_SPACING = 40;
+// Beat ticks are left out when they would be closer than this (pixels)
+const MIN_BEAT_SPACING = 6;
+
+// Bars|beats: a label every 1, 2, 4, 8... bars (or every beat when zoomed far
+// in), with beat or bar ticks in between. Spacing follows the tempo map.
+const getBarTicks = (start: number, end: number, width: number, tempo: TempoSettings): RulerTick[] => {
+  const startBar = timeToBars(tempo, start);
+  const endBar = timeToBars(tempo, end);
+  const pxPerBar = width / (endBar - startBar);
+  const labelBeats = pxPerBar / tempo.beatsPerBar >= MIN_BAR_LABEL_SPACING;
+
+  let labelStep = 1; // Bars
+  while (labelStep * pxPerBar < MIN_BAR_LABEL_SPACING) labelStep *= 2;
+  // Every beat if there's room, else every bar (or every few bars far out)
+  let tickStep = 1 / tempo.beatsPerBar;
+  if (tickStep * pxPerBar < MIN_BEAT_SPACING) {
+    tickStep = 1;
+    while (tickStep * pxPerBar < MIN_BEAT_SPACING) tickStep *= 2;
+  }
+
+  const ticks: RulerTick[] = [];
+  for (let i = Math.ceil(startBar / tickStep - 1e-9); i * tickStep <= endBar; i++) {
+    const bars = i * tickStep;
+    const bar = Math.floor(bars + 1e-9);
+    const beat = Math.round((bars - bar) * tempo.beatsPerBar);
+    let label: string | null = null;
+    if (beat === 0 && bar % labelStep === 0) label = String(bar + 1);
+    else if (labelBeats) label = `${bar + 1}.${beat + 1}`;
+    ticks.push({ time: barsToTime(tempo, bars), label });
+  }
+  return ticks;
+};
+
+// Ticks for the visible slice `start`..`end`, spaced for a ruler `width` pixels wide
+export const getRulerTicks = (
+  start: number,
+  end: number,
+  width: number,
+  unit: RulerUnit,
+  sampleRate: number,
+  tempo: TempoSettings,
+): RulerTick[] => {
+  if (end <= start || width <= 0) return [];
+  const minStep = (end - start) * (MIN_LABEL_SPACING / width);
+
+  if (unit === 'bars') return getBarTicks(start, end, width, tempo);
+
+  if (unit === 'samples') {
+    const { step, subdivisions } = getNiceStep(Math.max(1, minStep * sampleRate));
+    return getTicks(start, end, step / sampleRate, subdivisions, time => String(Math.round(time * sampleRate)));
+  }
+
+  const [step, subdivisions] = TIME_STEPS.find(([s]) => s >= minStep) ?? TIME_STEPS[TIME_STEPS.length - 1];
+  return getTicks(start, end, step, subdivisions, time => formatRulerTime(time, step));
+};
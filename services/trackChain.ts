@@ -0,0 +1,154 @@
+import { AudioTrack, PanLaw } from '../types';
+import { isLaneActive, scheduleEnvelope } from './automation';
+import { createEqStage } from './eq';
+import { createDynamicsStage, GainReduction } from './dynamics';
+
+// The per-track signal chain shared by live playback (TrackRow) and the
+// offline bounce. Building both graphs from the same function is what keeps
+// the exported file sounding like the session.
+//
+//   input (mute, forced to stereo) -> EQ -> gate -> compressor -> fader
+//     -> splitter -> L/R pan gains -> merger -> output
+
+export interface TrackChain {
+  input: AudioNode;
+  output: AudioNode;
+  update: (track: AudioTrack) => void;
+  // Hands volume/pan over to their automation envelopes from `position` on
+  // (up to `end` for a loop pass, appended to the previous pass)
+  scheduleAutomation: (track: AudioTrack, position: number, when: number, forExport?: boolean, end?: number, append?: boolean) => void;
+  // Drops the envelopes and returns to the static fader/pan values
+  releaseAutomation: (track: AudioTrack) => void;
+  // Current gate/compressor reduction for the TrackRow meters (live only)
+  getGainReduction: () => GainReduction;
+  // False when the gate is unavailable (no worklet module)
+  hasGate: boolean;
+  disconnect: () => void;
+}
+
+// Smoothing for live parameter changes, same as the master volume in App
+const PARAM_TIME_CONSTANT = 0.05;
+
+// Returns the [left, right] gains for a pan position (-1..1).
+// Neither law ever goes above unity, so a hard-panned track can't get
+// louder than it was centered. Linear keeps both sides at 0 dB in the
+// center and turns the far side down (balance); equal-power sits at -3 dB
+// per side in the center and keeps the total power constant while panning.
+export const getPanGains = (pan: number, law: PanLaw): [number, number] => {
+  const p = Math.max(-1, Math.min(1, pan));
+  if (law === 'linear') {
+    return [Math.min(1, 1 - p), Math.min(1, 1 + p)];
+  }
+  const angle = (p + 1) * Math.PI / 4;
+  return [Math.cos(angle), Math.sin(angle)];
+};
+
+export const createTrackChain = (ctx: BaseAudioContext, track: AudioTrack): TrackChain => {
+  // The mute stage up-mixes mono sources to L=R so panning has two sides to work with
+  const mute = ctx.createGain();
+  mute.channelCount = 2;
+  mute.channelCountMode = 'explicit';
+  mute.channelInterpretation = 'speakers';
+
+  const eq = createEqStage(ctx, track.eq);
+  const dynamics = createDynamicsStage(ctx, track.dynamics);
+  const fader = ctx.createGain();
+  const splitter = ctx.createChannelSplitter(2);
+  const panL = ctx.createGain();
+  const panR = ctx.createGain();
+  const merger = ctx.createChannelMerger(2);
+
+  mute.connect(eq.input);
+  eq.output.connect(dynamics.input);
+  dynamics.output.connect(fader);
+  fader.connect(splitter);
+  splitter.connect(panL, 0);
+  splitter.connect(panR, 1);
+  panL.connect(merger, 0, 0);
+  panR.connect(merger, 0, 1);
+
+  const [gainL, gainR] = getPanGains(track.pan, track.panLaw);
+  mute.gain.value = track.isMuted ? 0 : 1;
+  fader.gain.value = track.volume;
+  panL.gain.value = gainL;
+  panR.gain.value = gainR;
+
+  // Params currently driven by an envelope ignore static updates
+  const automated = { volume: false, pan: false };
+
+  const update = (next: AudioTrack) => {
+    const now = ctx.currentTime;
+    mute.gain.setTargetAtTime(next.isMuted ? 0 : 1, now, PARAM_TIME_CONSTANT);
+    eq.update(next.eq);
+    dynamics.update(next.dynamics);
+    if (!automated.volume) {
+      fader.gain.setTargetAtTime(next.volume, now, PARAM_TIME_CONSTANT);
+    }
+    if (!automated.pan) {
+      const [l, r] = getPanGains(next.pan, next.panLaw);
+      panL.gain.setTargetAtTime(l, now, PARAM_TIME_CONSTANT);
+      panR.gain.setTargetAtTime(r, now, PARAM_TIME_CONSTANT);
+    }
+  };
+
+  const scheduleAutomation = (
+    next: AudioTrack,
+    position: number,
+    when: number,
+    forExport: boolean = false,
+    end: number = Infinity,
+    append: boolean = false
+  ) => {
+    const { volume, pan } = next.automation;
+
+    automated.volume = isLaneActive(volume, forExport);
+    if (automated.volume) {
+      scheduleEnvelope(fader.gain, volume.points, position, when, v => v, true, end, append);
+    }
+
+    automated.pan = isLaneActive(pan, forExport);
+    if (automated.pan) {
+      scheduleEnvelope(panL.gain, pan.points, position, when, v => getPanGains(v, next.panLaw)[0], false, end, append);
+      scheduleEnvelope(panR.gain, pan.points, position, when, v => getPanGains(v, next.panLaw)[1], false, end, append);
+    }
+  };
+
+  const releaseAutomation = (next: AudioTrack) => {
+    const now = ctx.currentTime;
+    if (automated.volume) {
+      fader.gain.cancelScheduledValues(0);
+      fader.gain.setValueAtTime(fader.gain.value, now);
+    }
+    if (automated.pan) {
+      panL.gain.cancelScheduledValues(0);
+      panR.gain.cancelScheduledValues(0);
+      panL.gain.setValueAtTime(panL.gain.value, now);
+      panR.gain.setValueAtTime(panR.gain.value, now);
+    }
+    automated.volume = false;
+    automated.pan = false;
+    update(next);
+  };
+
+  const disconnect = () => {
+    mute.disconnect();
+    eq.disconnect();
+    dynamics.disconnect();
+    fader.disconnect();
+    splitter.disconnect();
+    panL.disconnect();
+    panR.disconnect();
+    merger.disconnect();
+  };
+
+  return {
+    input: mute,
+    output: merger,
+    update,
+    scheduleAutomation,
+    releaseAutomation,
+    getGainReduction: dynamics.getReduction,
+    hasGate: dynamics.hasGate,
+    disconnect,
+  };
+};
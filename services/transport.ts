@@ -0,0 +1,242 @@
+import { AudioTrack, PlayAnchor, TempoSettings, TimeRange } from '../types';
+import { getTrackClips, scheduleClips } from './clips';
+import { scheduleClicks } from './metronome';
+import { TrackChain } from './trackChain';
+
+// The transport owns live playback. While it runs, the timeline position is
+// anchored to the AudioContext clock and every registered track has its clips
+// scheduled as AudioBufferSourceNodes against that one anchor, so all tracks
+// start on the same sample. A seek is just a new anchor.
+//
+// With a loop, playback runs as back-to-back passes over the loop range.
+// Each pass is scheduled on the context clock shortly before it's due, so
+// the wrap from the loop end to the loop start has no gap. The metronome
+// clicks are scheduled the same way, a little ahead of the clock.
+
+export interface Transport {
+  play: (position: number) => void;
+  stop: () => void;
+  // Timeline position while playing, null when stopped
+  getPosition: () => number | null;
+  // Loop range, or null to play straight through. Takes effect immediately.
+  setLoop: (loop: TimeRange | null) => void;
+  // Tempo for the click track, or null for no click. Takes effect immediately.
+  setClick: (tempo: TempoSettings | null) => void;
+  // Adds a track's chain; returns the function that removes it again
+  register: (track: AudioTrack, chain: TrackChain) => () => void;
+  // Reschedules what an edit touched (clips or automation) without restarting the rest
+  updateTrack: (track: AudioTrack) => void;
+}
+
+interface ScheduledPass {
+  end: number; // Context time the pass is over
+  sources: AudioBufferSourceNode[];
+}
+
+interface TransportTrack {
+  track: AudioTrack;
+  chain: TrackChain;
+  passes: ScheduledPass[];
+}
+
+// Lead time for a new anchor, so the first samples aren't cut off
+const START_LATENCY = 0.05;
+// Lead time when a single track is rescheduled mid-playback
+const RESCHEDULE_LATENCY = 0.02;
+// Loop passes and clicks are scheduled this far ahead, checked every SCHEDULE_TICK ms
+const SCHEDULE_LOOKAHEAD = 1;
+const SCHEDULE_TICK = 100;
+
+// `clickOutput` is where the metronome plays: the monitor section, so it
+// follows dim and mono/L/R without reaching the master bus or the meters
+export const createTransport = (ctx: BaseAudioContext, clickOutput: AudioNode): Transport => {
+  const tracks = new Map<string, TransportTrack>();
+  let anchor: PlayAnchor | null = null;
+  let loop: TimeRange | null = null;
+  // Loop of the current run: only if playback started before the loop end
+  let activeLoop: TimeRange | null = null;
+  let nextPass = 0; // Context time of the first loop pass not scheduled yet
+  let click: TempoSettings | null = null;
+  let clickPasses: ScheduledPass[] = [];
+  let nextClick = 0; // Context time up to which clicks are scheduled
+  let scheduleTimer: number | null = null;
+
+  const getPositionAt = (current: PlayAnchor, contextTime: number) => {
+    const position = current.position + Math.max(0, contextTime - current.contextTime);
+    if (!activeLoop || position < activeLoop.end) return position;
+    return activeLoop.start + (position - activeLoop.end) % (activeLoop.end - activeLoop.start);
+  };
+
+  // Runs `schedule` for every pass from context time `from` up to the
+  // passes the loop timer hasn't reached yet (or once, without a loop)
+  const forEachPass = (from: number, schedule: (position: number, when: number, end: number, isFirst: boolean) => void) => {
+    if (!anchor) return;
+    const position = getPositionAt(anchor, from);
+    if (!activeLoop) {
+      schedule(position, from, Infinity, true);
+      return;
+    }
+    const { start, end } = activeLoop;
+    schedule(position, from, end, true);
+    // Small tolerance so rounding doesn't schedule a pass twice
+    for (let when = from + (end - position); when < nextPass - 1e-6; when += end - start) {
+      schedule(start, when, end, false);
+    }
+  };
+
+  // The anchor itself if it's still ahead, otherwise a moment from now
+  const getScheduleStart = () => anchor ? Math.max(anchor.contextTime, ctx.currentTime + RESCHEDULE_LATENCY) : 0;
+
+  const schedulePass = (entry: TransportTrack, position: number, when: number, end: number) => {
+    if (!entry.track.audioBuffer) return;
+    const sources = scheduleClips(ctx, entry.track.audioBuffer, getTrackClips(entry.track), entry.chain.input, position, when, end);
+    entry.passes.push({ end: when + (end - position), sources });
+  };
+
+  const startClips = (entry: TransportTrack) => {
+    forEachPass(getScheduleStart(), (position, when, end) => schedulePass(entry, position, when, end));
+  };
+
+  const stopClips = (entry: TransportTrack) => {
+    entry.passes.forEach(pass => pass.sources.forEach(source => {
+      source.stop();
+      source.disconnect();
+    }));
+    entry.passes = [];
+  };
+
+  const startAutomation = (entry: TransportTrack) => {
+    forEachPass(getScheduleStart(), (position, when, end, isFirst) => {
+      entry.chain.scheduleAutomation(entry.track, position, when, false, end, !isFirst);
+    });
+  };
+
+  const stopAutomation = (entry: TransportTrack) => entry.chain.releaseAutomation(entry.track);
+
+  const stopClicks = () => {
+    clickPasses.forEach(pass => pass.sources.forEach(source => {
+      source.stop();
+      source.disconnect();
+    }));
+    clickPasses = [];
+  };
+
+  // Clicks from nextClick up to context time `until`, split at the loop wraps
+  const scheduleClickWindow = (until: number) => {
+    if (!anchor || !click) return;
+    while (nextClick < until) {
+      let position = getPositionAt(anchor, nextClick);
+      // Right at a wrap, rounding can leave the position a hair before the loop end
+      if (activeLoop && activeLoop.end - position < 1e-6) position = activeLoop.start;
+      const passEnd = activeLoop ? activeLoop.end : Infinity;
+      const windowEnd = Math.min(until, nextClick + (passEnd - position));
+      const sources = scheduleClicks(ctx, click, clickOutput, position, nextClick, position + (windowEnd - nextClick));
+      clickPasses.push({ end: windowEnd, sources });
+      nextClick = windowEnd;
+    }
+    clickPasses = clickPasses.filter(pass => pass.end > ctx.currentTime);
+  };
+
+  // Keeps the loop passes and clicks SCHEDULE_LOOKAHEAD ahead of the clock
+  const scheduleAhead = () => {
+    scheduleClickWindow(ctx.currentTime + SCHEDULE_LOOKAHEAD);
+    if (!activeLoop) return;
+    const { start, end } = activeLoop;
+    while (nextPass < ctx.currentTime + SCHEDULE_LOOKAHEAD) {
+      const when = nextPass;
+      tracks.forEach(entry => {
+        schedulePass(entry, start, when, end);
+        entry.chain.scheduleAutomation(entry.track, start, when, false, end, true);
+      });
+      nextPass += end - start;
+    }
+    tracks.forEach(entry => {
+      entry.passes = entry.passes.filter(pass => pass.end > ctx.currentTime);
+    });
+  };
+
+  const stop = () => {
+    tracks.forEach(entry => {
+      stopClips(entry);
+      stopAutomation(entry);
+    });
+    stopClicks();
+    anchor = null;
+    activeLoop = null;
+    if (scheduleTimer !== null) {
+      clearInterval(scheduleTimer);
+      scheduleTimer = null;
+    }
+  };
+
+  const start = (contextTime: number, position: number) => {
+    if (anchor) stop();
+    anchor = { contextTime, position };
+    activeLoop = loop && position < loop.end ? loop : null;
+    if (activeLoop) nextPass = contextTime + (activeLoop.end - position);
+    nextClick = contextTime;
+    scheduleTimer = window.setInterval(scheduleAhead, SCHEDULE_TICK);
+    tracks.forEach(entry => {
+      startClips(entry);
+      startAutomation(entry);
+    });
+    scheduleAhead();
+  };
+
+  const play = (position: number) => start(ctx.currentTime + START_LATENCY, position);
+
+  const getPosition = () => anchor ? getPositionAt(anchor, ctx.currentTime) : null;
+
+  const setLoop = (next: TimeRange | null) => {
+    if (next?.start === loop?.start && next?.end === loop?.end) return;
+    loop = next;
+    // Picks up from where playback is now, with the new passes
+    if (anchor) {
+      const when = ctx.currentTime + RESCHEDULE_LATENCY;
+      start(when, getPositionAt(anchor, when));
+    }
+  };
+
+  const setClick = (next: TempoSettings | null) => {
+    if (next === click) return;
+    click = next;
+    if (!anchor) return;
+    // Drops the clicks already queued for the old tempo and carries on
+    stopClicks();
+    nextClick = getScheduleStart();
+    scheduleClickWindow(ctx.currentTime + SCHEDULE_LOOKAHEAD);
+  };
+
+  const register = (track: AudioTrack, chain: TrackChain) => {
+    const entry: TransportTrack = { track, chain, passes: [] };
+    tracks.set(track.id, entry);
+    startClips(entry);
+    startAutomation(entry);
+
+    return () => {
+      stopClips(entry);
+      if (anchor) stopAutomation(entry);
+      if (tracks.get(track.id) === entry) tracks.delete(track.id);
+    };
+  };
+
+  const updateTrack = (track: AudioTrack) => {
+    const entry = tracks.get(track.id);
+    if (!entry) return;
+    const previous = entry.track;
+    entry.track = track;
+    if (!anchor) return;
+
+    if (track.audioBuffer !== previous.audioBuffer || track.clips !== previous.clips) {
+      stopClips(entry);
+      startClips(entry);
+    }
+    // Writing automation points doesn't touch the clips, so the audio keeps running
+    if (track.automation !== previous.automation || track.panLaw !== previous.panLaw) {
+      stopAutomation(entry);
+      startAutomation(entry);
+    }
+  };
+
+  return { play, stop, getPosition, setLoop, setClick, register, updateTrack };
+};
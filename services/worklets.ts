@@ -0,0 +1,384 @@
+// --- AUDIO WORKLET CODE AS STRING ---
+// Same approach as the MP3 worker in audioService: the processors live in a
+// string and are loaded from a Blob URL, so no extra bundler setup is needed.
+// The module is added to the live AudioContext and to every OfflineAudioContext
+// used for bouncing, so both graphs run the exact same DSP.
+const WORKLET_CODE = `
+const dbToGain = (db) => Math.pow(10, db / 20);
+const gainToDb = (gain) => gain > 0 ? 20 * Math.log10(gain) : -100;
+
+// Reports the deepest gain reduction seen, about 30 times per second
+class ReductionReporter {
+  constructor(port) {
+    this.port = port;
+    this.minGain = 1;
+    this.counter = 0;
+  }
+  track(gain, frames) {
+    if (gain < this.minGain) this.minGain = gain;
+    this.counter += frames;
+    if (this.counter >= sampleRate / 30) {
+      this.port.postMessage({ reduction: gainToDb(this.minGain) });
+      this.minGain = 1;
+      this.counter = 0;
+    }
+  }
+}
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'threshold', defaultValue: -50, minValue: -100, maxValue: 0, automationRate: 'k-rate' },
+      { name: 'attack', defaultValue: 0.002, minValue: 0.0001, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'hold', defaultValue: 0.05, minValue: 0, maxValue: 2, automationRate: 'k-rate' },
+      { name: 'release', defaultValue: 0.1, minValue: 0.001, maxValue: 5, automationRate: 'k-rate' },
+      { name: 'range', defaultValue: -80, minValue: -100, maxValue: 0, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor() {
+    super();
+    this.gain = 1;
+    this.holdCounter = 0;
+    this.reporter = new ReductionReporter(this.port);
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const frames = output[0].length;
+    if (!input || input.length === 0) return true;
+
+    const threshold = dbToGain(parameters.threshold[0]);
+    const floor = dbToGain(parameters.range[0]);
+    const attackCoef = Math.exp(-1 / (parameters.attack[0] * sampleRate));
+    const releaseCoef = Math.exp(-1 / (parameters.release[0] * sampleRate));
+    const holdSamples = parameters.hold[0] * sampleRate;
+
+    for (let i = 0; i < frames; i++) {
+      // Stereo-linked detector: the loudest channel opens the gate for both
+      let level = 0;
+      for (let c = 0; c < input.length; c++) {
+        const v = Math.abs(input[c][i]);
+        if (v > level) level = v;
+      }
+
+      if (level >= threshold) {
+        this.holdCounter = holdSamples;
+      } else if (this.holdCounter > 0) {
+        this.holdCounter--;
+      }
+
+      const target = this.holdCounter > 0 ? 1 : floor;
+      const coef = target > this.gain ? attackCoef : releaseCoef;
+      this.gain = target + coef * (this.gain - target);
+
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = input[Math.min(c, input.length - 1)][i] * this.gain;
+      }
+    }
+
+    this.reporter.track(this.gain, frames);
+    return true;
+  }
+}
+
+registerProcessor('noise-gate', NoiseGateProcessor);
+
+// --- Master limiter ---
+// Inter-sample peaks are estimated by 4x oversampling each input sample with
+// a short windowed-sinc interpolator (12 taps, so it looks 6 samples ahead).
+const TP_HALF_TAPS = 6;
+const TP_PHASES = 4;
+const TP_COEFS = (() => {
+  const sets = [];
+  for (let p = 1; p < TP_PHASES; p++) {
+    const frac = p / TP_PHASES;
+    const taps = [];
+    for (let j = -TP_HALF_TAPS + 1; j <= TP_HALF_TAPS; j++) {
+      const x = j - frac;
+      const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos(Math.PI * x / TP_HALF_TAPS);
+      taps.push(sinc * window);
+    }
+    sets.push(taps);
+  }
+  return sets;
+})();
+
+// Look-ahead brickwall limiter. The gain needed for each (true) peak is
+// held for the look-ahead window, released exponentially, and then
+// smoothed with a moving average of the same length. Because the audio is
+// delayed by that window, the gain has fully ramped down by the time the
+// peak reaches the output, so nothing passes above the ceiling.
+class BrickwallLimiterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'ceiling', defaultValue: -1, minValue: -24, maxValue: 0, automationRate: 'k-rate' },
+      { name: 'release', defaultValue: 0.1, minValue: 0.001, maxValue: 2, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor(options) {
+    super();
+    const lookahead = (options.processorOptions && options.processorOptions.lookahead) || 0.005;
+    this.window = Math.max(1, Math.round(lookahead * sampleRate)) + 1;
+    this.delay = this.window - 1 + TP_HALF_TAPS;
+
+    // Audio history per channel; also feeds the peak interpolator
+    this.historySize = Math.max(this.delay, 2 * TP_HALF_TAPS) + 1;
+    this.history = [new Float32Array(this.historySize), new Float32Array(this.historySize)];
+    this.writeIndex = 0;
+
+    // Sliding minimum of the required gain (monotonic deque)
+    this.minValues = new Float64Array(this.window + 1);
+    this.minStamps = new Float64Array(this.window + 1);
+    this.minHead = 0;
+    this.minLength = 0;
+    this.sampleCount = 0;
+
+    // Moving average of the released gain
+    this.smoothing = new Float64Array(this.window).fill(1);
+    this.smoothingIndex = 0;
+    this.smoothingSum = this.window;
+
+    this.released = 1;
+    this.reporter = new ReductionReporter(this.port);
+  }
+
+  read(channel, age) {
+    const index = (this.writeIndex - age + this.historySize) % this.historySize;
+    return this.history[channel][index];
+  }
+
+  truePeak(channel) {
+    // Peak around the sample TP_HALF_TAPS behind the newest one
+    let peak = Math.abs(this.read(channel, TP_HALF_TAPS));
+    for (let p = 0; p < TP_COEFS.length; p++) {
+      const taps = TP_COEFS[p];
+      let sum = 0;
+      for (let t = 0; t < taps.length; t++) {
+        // taps[t] belongs to offset j = t - TP_HALF_TAPS + 1 from that sample
+        sum += taps[t] * this.read(channel, 2 * TP_HALF_TAPS - 1 - t);
+      }
+      const v = Math.abs(sum);
+      if (v > peak) peak = v;
+    }
+    return peak;
+  }
+
+  pushMinimum(value) {
+    const size = this.minValues.length;
+    // Drop entries that can never be the minimum again
+    while (this.minLength > 0) {
+      const last = (this.minHead + this.minLength - 1) % size;
+      if (this.minValues[last] < value) break;
+      this.minLength--;
+    }
+    const slot = (this.minHead + this.minLength) % size;
+    this.minValues[slot] = value;
+    this.minStamps[slot] = this.sampleCount;
+    this.minLength++;
+    // Expire entries older than the window
+    while (this.minStamps[this.minHead] <= this.sampleCount - this.window) {
+      this.minHead = (this.minHead + 1) % size;
+      this.minLength--;
+    }
+    return this.minValues[this.minHead];
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const frames = output[0].length;
+    const hasInput = input && input.length > 0;
+
+    const ceiling = dbToGain(parameters.ceiling[0]);
+    const releaseCoef = Math.exp(-1 / (parameters.release[0] * sampleRate));
+    let minGain = 1;
+
+    for (let i = 0; i < frames; i++) {
+      this.writeIndex = (this.writeIndex + 1) % this.historySize;
+      for (let c = 0; c < 2; c++) {
+        this.history[c][this.writeIndex] = hasInput ? input[Math.min(c, input.length - 1)][i] : 0;
+      }
+
+      // Stereo-linked gain computer
+      const peak = Math.max(this.truePeak(0), this.truePeak(1));
+      const required = peak > ceiling ? ceiling / peak : 1;
+      const held = this.pushMinimum(required);
+      this.sampleCount++;
+
+      this.released = held < this.released ? held : held + (this.released - held) * releaseCoef;
+
+      this.smoothingSum += this.released - this.smoothing[this.smoothingIndex];
+      this.smoothing[this.smoothingIndex] = this.released;
+      this.smoothingIndex = (this.smoothingIndex + 1) % this.window;
+      const gain = Math.min(1, this.smoothingSum / this.window);
+      if (gain < minGain) minGain = gain;
+
+      for (let c = 0; c < output.length; c++) {
+        const v = this.read(Math.min(c, 1), this.delay) * gain;
+        // Only reached through rounding in the running average
+        output[c][i] = Math.max(-ceiling, Math.min(ceiling, v));
+      }
+    }
+
+    this.reporter.track(minGain, frames);
+    return true;
+  }
+}
+
+registerProcessor('brickwall-limiter', BrickwallLimiterProcessor);
+
+// --- Master meter ---
+// Sample peak, true peak and RMS per channel, reported about 30 times per
+// second, plus K-weighted energy per 100 ms step for the loudness readouts.
+// The K-weighting coefficients come in through processorOptions so they are
+// computed in one place (services/loudness).
+const RMS_WINDOW = 0.3;
+
+class LevelMeterProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.filters = options.processorOptions.kWeighting;
+    this.filterState = [0, 1].map(() => this.filters.map(() => [0, 0, 0, 0]));
+    this.history = [new Float32Array(2 * TP_HALF_TAPS), new Float32Array(2 * TP_HALF_TAPS)];
+    this.historyIndex = 0;
+
+    this.stepLength = Math.round(sampleRate * 0.1);
+    this.stepCounter = 0;
+    this.stepEnergy = 0;
+    this.steps = [];
+
+    this.rmsWindow = Math.max(1, Math.round(RMS_WINDOW * sampleRate / 128));
+    this.rmsBlocks = [new Float64Array(this.rmsWindow), new Float64Array(this.rmsWindow)];
+    this.rmsSums = [0, 0];
+    this.rmsIndex = 0;
+
+    this.peak = [0, 0];
+    this.truePeak = [0, 0];
+    this.postInterval = sampleRate / 30;
+    this.postCounter = 0;
+  }
+
+  weight(channel, x) {
+    let value = x;
+    for (let f = 0; f < this.filters.length; f++) {
+      const { b0, b1, b2, a1, a2 } = this.filters[f];
+      const s = this.filterState[channel][f];
+      const y = b0 * value + b1 * s[0] + b2 * s[1] - a1 * s[2] - a2 * s[3];
+      s[1] = s[0]; s[0] = value;
+      s[3] = s[2]; s[2] = y;
+      value = y;
+    }
+    return value;
+  }
+
+  interpolatedPeak(channel) {
+    // Peak between the two samples at the middle of the history
+    const history = this.history[channel];
+    const size = history.length;
+    let peak = 0;
+    for (let p = 0; p < TP_COEFS.length; p++) {
+      const taps = TP_COEFS[p];
+      let sum = 0;
+      for (let t = 0; t < taps.length; t++) {
+        sum += taps[t] * history[(this.historyIndex + 1 + t) % size];
+      }
+      const v = Math.abs(sum);
+      if (v > peak) peak = v;
+    }
+    return peak;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+    const frames = input[0].length;
+    const size = this.history[0].length;
+
+    const squares = [0, 0];
+    for (let i = 0; i < frames; i++) {
+      this.historyIndex = (this.historyIndex + 1) % size;
+      for (let c = 0; c < 2; c++) {
+        const x = input[Math.min(c, input.length - 1)][i];
+        const v = Math.abs(x);
+        if (v > this.peak[c]) this.peak[c] = v;
+        if (v > this.truePeak[c]) this.truePeak[c] = v;
+        squares[c] += x * x;
+
+        this.history[c][this.historyIndex] = x;
+        const tp = this.interpolatedPeak(c);
+        if (tp > this.truePeak[c]) this.truePeak[c] = tp;
+
+        const w = this.weight(c, x);
+        this.stepEnergy += w * w;
+      }
+
+      if (++this.stepCounter >= this.stepLength) {
+        this.steps.push(this.stepEnergy);
+        this.stepEnergy = 0;
+        this.stepCounter = 0;
+      }
+    }
+
+    for (let c = 0; c < 2; c++) {
+      const meanSquare = squares[c] / frames;
+      this.rmsSums[c] += meanSquare - this.rmsBlocks[c][this.rmsIndex];
+      this.rmsBlocks[c][this.rmsIndex] = meanSquare;
+    }
+    this.rmsIndex = (this.rmsIndex + 1) % this.rmsWindow;
+
+    this.postCounter += frames;
+    if (this.postCounter >= this.postInterval) {
+      this.port.postMessage({
+        peak: this.peak,
+        truePeak: this.truePeak,
+        rms: this.rmsSums.map(sum => Math.sqrt(Math.max(0, sum) / this.rmsWindow)),
+        steps: this.steps,
+        stepLength: this.stepLength,
+      });
+      this.peak = [0, 0];
+      this.truePeak = [0, 0];
+      this.steps = [];
+      this.postCounter = 0;
+    }
+    return true;
+  }
+}
+
+registerProcessor('level-meter', LevelMeterProcessor);
+`;
+
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<boolean>>();
+const readyContexts = new WeakSet<BaseAudioContext>();
+
+// Adds the processors to a context once. Resolves to false where
+// AudioWorklet isn't available; callers then build the graph without them.
+export const loadWorklets = (ctx: BaseAudioContext): Promise<boolean> => {
+  let loading = loadedContexts.get(ctx);
+  if (!loading) {
+    if (!ctx.audioWorklet) {
+      loading = Promise.resolve(false);
+    } else {
+      const blob = new Blob([WORKLET_CODE], { type: 'application/javascript' });
+      const url = URL.createObjectURL(blob);
+      loading = ctx.audioWorklet.addModule(url)
+        .then(() => {
+          readyContexts.add(ctx);
+          return true;
+        })
+        .catch(err => {
+          console.warn("Could not load audio worklets", err);
+          return false;
+        })
+        .finally(() => URL.revokeObjectURL(url));
+    }
+    loadedContexts.set(ctx, loading);
+  }
+  return loading;
+};
+
+// Synchronous check for graph builders that run after loadWorklets resolved
+export const hasWorklets = (ctx: BaseAudioContext) => readyContexts.has(ctx);
@@ -1,18 +1,216 @@
 import WaveSurfer from 'wavesurfer.js';
 
+// Equal-power keeps perceived loudness constant across the stereo field
+// (-3 dB per side in the center), linear is a balance control that only
+// turns the far side down.
+export type PanLaw = 'equal-power' | 'linear';
+
+export type FadeCurve = 'linear' | 'exponential' | 's-curve' | 'equal-power';
+
+// A region of the track's source file placed on the timeline
+export interface AudioClip {
+  id: string;
+  start: number; // Timeline position (seconds)
+  offset: number; // Start inside the source file (seconds)
+  duration: number; // Length (seconds)
+  fadeIn: number; // Seconds
+  fadeOut: number; // Seconds
+  fadeInCurve: FadeCurve;
+  fadeOutCurve: FadeCurve;
+}
+
+// off: envelope ignored, read: envelope drives the control,
+// write: fader/pan moves during playback are recorded into the envelope
+export type AutomationMode = 'off' | 'read' | 'write';
+export type AutomationParam = 'volume' | 'pan';
+// How the value travels from a breakpoint to the next one
+export type AutomationCurve = 'linear' | 'smooth' | 'step';
+
+export interface AutomationPoint {
+  time: number; // Timeline position (seconds)
+  value: number; // Same units as the control (volume 0..1, pan -1..1)
+  curve: AutomationCurve;
+}
+
+export interface AutomationLane {
+  mode: AutomationMode;
+  points: AutomationPoint[]; // Sorted by time
+}
+
+export type EqBandType = 'highpass' | 'lowshelf' | 'peaking' | 'highshelf' | 'lowpass';
+
+export interface EqBand {
+  type: EqBandType;
+  enabled: boolean;
+  frequency: number; // Hz
+  gain: number; // dB (shelves and peaking bands only)
+  q: number;
+}
+
+export interface TrackEq {
+  bypass: boolean;
+  bands: EqBand[]; // Fixed layout: HP, LS, 3x peaking, HS, LP
+}
+
+export interface CompressorSettings {
+  enabled: boolean;
+  threshold: number; // dB
+  ratio: number;
+  attack: number; // Seconds
+  release: number; // Seconds
+  knee: number; // dB
+  makeup: number; // dB
+}
+
+export interface GateSettings {
+  enabled: boolean;
+  threshold: number; // dB
+  attack: number; // Seconds
+  hold: number; // Seconds
+  release: number; // Seconds
+  range: number; // dB of attenuation when closed
+}
+
+export interface TrackDynamics {
+  gate: GateSettings;
+  compressor: CompressorSettings;
+}
+
 export interface AudioTrack {
   id: string;
   name: string;
   file: File;
-  url: string; // Blob URL
   volume: number; // 0.0 to 1.0
+  pan: number; // -1.0 (L) to 1.0 (R)
+  panLaw: PanLaw;
   isMuted: boolean;
   isSolo: boolean;
-  duration: number;
+  duration: number; // Source file length
+  clips: AudioClip[]; // Empty until the file is decoded
+  automation: Record<AutomationParam, AutomationLane>;
+  eq: TrackEq;
+  dynamics: TrackDynamics;
   wavesurfer?: WaveSurfer;
   audioBuffer?: AudioBuffer; // Cached for export
 }
 
+// Look-ahead brickwall limiter on the master bus
+export interface LimiterSettings {
+  enabled: boolean;
+  ceiling: number; // dBTP
+  release: number; // Seconds
+}
+
+// Control-room monitoring; never part of the bounce
+export type MonitorMode = 'stereo' | 'mono' | 'left' | 'right';
+
+export interface MonitorSettings {
+  mode: MonitorMode;
+  dim: boolean;
+}
+
+// Export loudness normalization
+export interface LoudnessTarget {
+  integrated: number; // LUFS
+  truePeak: number; // dBTP, never exceeded
+}
+
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS (-Infinity for silence)
+  truePeak: number; // dBTP
+  samplePeak: number; // dBFS
+}
+
+export interface LoudnessReport {
+  target: LoudnessTarget;
+  gain: number; // dB applied
+  before: LoudnessMeasurement;
+  after: LoudnessMeasurement;
+}
+
+export type ExportFormat = 'wav' | 'mp3' | 'flac';
+
+export type ExportBitDepth = 16 | 24 | 32; // 32 = float
+
+export interface TimeRange {
+  start: number; // Seconds
+  end: number;
+}
+
+// Horizontal view shared by the ruler and every track lane
+export interface TimelineView {
+  zoom: number; // 1 = whole session fits the panel
+  scroll: number; // Seconds at the left edge
+}
+
+export type RulerUnit = 'time' | 'samples' | 'bars';
+
+export interface TempoChange {
+  bar: number; // 1-based; the new tempo starts on this bar's downbeat
+  bpm: number;
+}
+
+// Project tempo. The time signature holds for the whole session; the map
+// can change the BPM from a given bar on.
+export interface TempoSettings {
+  bpm: number;
+  beatsPerBar: number;
+  beatUnit: number; // 4 = quarter notes; the BPM counts these
+  changes: TempoChange[];
+}
+
+// A named point on the timeline, or a region when it has an end
+export interface Marker {
+  id: string;
+  name: string;
+  start: number; // Seconds
+  end: number | null;
+}
+
+export type DitherMode = 'off' | 'tpdf' | 'shaped';
+
+// Constant or variable (quality-driven) bitrate. The bundled LAME build has
+// no ABR, and always codes a stereo render as joint stereo.
+export type Mp3Mode = 'cbr' | 'vbr';
+
+export interface ExportSettings {
+  sampleRate: number; // Hz
+  bitDepth: ExportBitDepth; // WAV and FLAC (which stores 32-bit as 24); MP3 has no bit depth
+  channels: 1 | 2;
+  dither: DitherMode; // Below 32-bit float only
+  flacCompression: number; // 0 (fastest) to 8 (smallest)
+  mp3Mode: Mp3Mode;
+  mp3Bitrate: number; // kbps; CBR only
+  mp3Quality: number; // VBR 0 (best, V0) to 9 (smallest, V9)
+  cueSheet: boolean; // Save a .cue file with the markers next to the export
+  exportLoop: boolean; // Export exactly the loop region instead of the in/out range
+  includeClick: boolean; // Mix the metronome into the bounce (never into stems)
+  preRoll: number; // Seconds added before an export range
+  postRoll: number; // Seconds added after it, for effect tails
+}
+
+export interface CoverImage {
+  data: Uint8Array;
+  mimeType: string; // image/jpeg or image/png
+  width: number;
+  height: number;
+}
+
+// Tags written into exported files, plus how they are named
+export interface ExportMetadata {
+  title: string;
+  artist: string;
+  album: string;
+  year: string;
+  genre: string;
+  isrc: string;
+  comment: string;
+  cover: CoverImage | null;
+  writeBext: boolean; // Broadcast Wave chunk in WAV exports
+  originator: string; // bext originator (studio or engineer)
+  fileNameTemplate: string; // e.g. {title}_{date}_v{n}
+}
+
 export interface PlaybackState {
   isPlaying: boolean;
   currentTime: number;
@@ -20,4 +218,11 @@ export interface PlaybackState {
   isExporting: boolean;
 }
 
+// Links the timeline to the AudioContext clock while playing:
+// timeline position = position + (ctx.currentTime - contextTime)
+export interface PlayAnchor {
+  contextTime: number;
+  position: number;
+}
+
 export type TrackStatus = 'loading' | 'ready' | 'error';
\ No newline at end of file